@@ -8,7 +8,8 @@ loadEnv();
 const scriptPath = process.argv[1] || '';
 const isGammaSearch = scriptPath.includes('gamma_search');
 const isGammaPick = scriptPath.includes('gamma_pick');
-const isGammaScript = isGammaSearch || isGammaPick;
+const isGammaTerms = scriptPath.includes('gamma_terms');
+const isGammaScript = isGammaSearch || isGammaPick || isGammaTerms;
 
 // Define the schema for environment variables
 const envSchema = z.object({
@@ -23,12 +24,96 @@ const envSchema = z.object({
     SPOT_RETURN_WINDOW_MS: z.coerce.number().int().positive().finite().default(60000),
     SPOT_MOVE_THRESHOLD_BPS: z.coerce.number().positive().finite().default(50),
     SPOT_BUFFER_SAMPLE_MS: z.coerce.number().int().positive().finite().default(250),
+    // Price history ring capacity per symbol; 0 = sized from longest horizon
+    SPOT_BUFFER_CAPACITY: z.coerce.number().int().nonnegative().finite().default(0),
+    // CSV of return horizons in ms; defaults to SPOT_RETURN_WINDOW_MS alone
+    SPOT_RETURN_HORIZONS_MS: z.string().default('')
+        .transform(val => val.split(',').map(v => v.trim()).filter(v => v.length > 0).map(Number))
+        .pipe(z.array(z.number().int().positive().finite())),
+    // bps: static threshold, zscore: vol-normalized threshold, both: both must hold
+    SPOT_MOVE_THRESHOLD_MODE: z.enum(['bps', 'zscore', 'both']).default('bps'),
+    SPOT_MOVE_THRESHOLD_Z: z.coerce.number().positive().finite().default(3),
+    SPOT_VOL_WINDOW_MS: z.coerce.number().int().positive().finite().default(300000),
+    SPOT_VOL_MIN_SAMPLES: z.coerce.number().int().positive().finite().default(30),
+    // Series driving return calculation: last trade, quote mid or microprice
+    SPOT_PRICE_SOURCE: z.enum(['trade', 'mid', 'microprice']).default('trade'),
+
+    // Binance streams (CSV of trade, bookTicker, depth)
+    BINANCE_STREAMS: z.string().default('trade')
+        .transform(val => val.split(',').map(v => v.trim()).filter(v => v.length > 0))
+        .pipe(z.array(z.enum(['trade', 'bookTicker', 'depth'])).min(1)),
+    BINANCE_DEPTH_LEVELS: z.enum(['5', '10', '20']).default('5'),
+    // Rotate before Binance's forced 24h disconnect
+    BINANCE_WS_MAX_AGE_MS: z.coerce.number().int().positive().finite().default(23 * 60 * 60 * 1000),
+    // SUBSCRIBE/UNSUBSCRIBE ack timeout
+    BINANCE_WS_REQUEST_TIMEOUT_MS: z.coerce.number().int().positive().finite().default(5000),
+
+    // Spot trade flow (CSV of rolling windows in ms)
+    SPOT_FLOW_WINDOWS_MS: z.string().default('5000,30000')
+        .transform(val => val.split(',').map(v => v.trim()).filter(v => v.length > 0).map(Number))
+        .pipe(z.array(z.number().int().positive().finite()).min(1)),
+    SPOT_FLOW_EMIT_MS: z.coerce.number().int().positive().finite().default(5000),
+
+    // Spot trade id gap handling: suppress moves until the window refills
+    SPOT_GAP_INVALIDATES_WINDOW: z.enum(['true', 'false']).transform(val => val === 'true').default('true'),
+
+    // Spot staleness watchdog
+    SPOT_STALE_CONNECTION_MS: z.coerce.number().int().positive().finite().default(10000),
+    SPOT_STALE_SYMBOL_MS: z.coerce.number().int().positive().finite().default(15000),
+
+    // Spot latency analytics
+    SPOT_LATENCY_WINDOW_MS: z.coerce.number().int().positive().finite().default(60000),
+    SPOT_LATENCY_SUMMARY_MS: z.coerce.number().int().positive().finite().default(30000),
+    SPOT_LATENCY_WARN_MS: z.coerce.number().positive().finite().default(250),
+
+    // Multi-venue Spot Feed
+    // CSV of venues; more than one enables the composite reference price
+    SPOT_VENUES: z.string().default('binance')
+        .transform(val => val.split(',').map(v => v.trim().toLowerCase()).filter(v => v.length > 0))
+        .pipe(z.array(z.enum(['binance', 'coinbase', 'kraken', 'okx'])).min(1)),
+    COINBASE_WS_BASE: z.string().default('wss://ws-feed.exchange.coinbase.com'),
+    KRAKEN_WS_BASE: z.string().default('wss://ws.kraken.com/v2'),
+    OKX_WS_BASE: z.string().default('wss://ws.okx.com:8443/ws/v5/public'),
+    SPOT_COMPOSITE_METHOD: z.enum(['median', 'vwap']).default('median'),
+    SPOT_COMPOSITE_MAX_DEVIATION_BPS: z.coerce.number().positive().finite().default(25),
+    SPOT_COMPOSITE_STALE_MS: z.coerce.number().int().positive().finite().default(5000),
+    SPOT_COMPOSITE_MIN_VENUES: z.coerce.number().int().positive().finite().default(2),
 
     // Polymarket Market Data
     // Optional for gamma scripts, required for bot mode
     POLYMARKET_TOKEN_ID: z.string().default(''),
+    // Watch-list: CSV of token IDs and/or a file (one `tokenId [SYMBOL]` per line, or JSON)
+    POLYMARKET_TOKEN_IDS: z.string().default('')
+        .transform(val => val.split(',').map(v => v.trim()).filter(v => v.length > 0)),
+    POLYMARKET_TOKEN_FILE: z.string().optional(),
+    // Max tokens per batched REST orderbook request
+    POLY_BATCH_SIZE: z.coerce.number().int().positive().finite().default(20),
+    // Minimum gap between REST requests across all tokens
+    POLY_MIN_REQUEST_INTERVAL_MS: z.coerce.number().int().nonnegative().finite().default(250),
+    // Polling mode: after a spot move, poll affected tokens every POLY_BURST_INTERVAL_MS for POLY_BURST_DURATION_MS (0 = off)
+    POLY_BURST_DURATION_MS: z.coerce.number().int().nonnegative().finite().default(10000),
+    POLY_BURST_INTERVAL_MS: z.coerce.number().int().positive().finite().default(1000),
+    // Max wait for an on-demand book refresh before evaluating a spot move anyway
+    POLY_REFRESH_TIMEOUT_MS: z.coerce.number().int().nonnegative().finite().default(1500),
+    // Rolling window for the Polymarket trade tape (recent volume)
+    POLY_TRADE_WINDOW_MS: z.coerce.number().int().positive().finite().default(60000),
+    // Market metadata (tick size, min order, neg-risk, end date) cache lifetime
+    POLY_METADATA_TTL_MS: z.coerce.number().int().positive().finite().default(3600000),
+    // Also watch each token's complementary outcome and consolidate the two books
+    POLY_COMPLEMENT_BOOKS: z.enum(['true', 'false']).transform(val => val === 'true').default('true'),
+    // Max age difference between YES and NO data to combine them
+    POLY_COMPLEMENT_MAX_SKEW_MS: z.coerce.number().int().positive().finite().default(10000),
+    // Max |YES + NO - 1| (mid, bid or ask sums) before a parity event
+    POLY_PARITY_MAX_DEVIATION: z.coerce.number().positive().max(1).default(0.02),
     POLY_SNAPSHOT_INTERVAL_MS: z.coerce.number().int().positive().finite().default(5000),
     POLY_DEPTH_LEVELS: z.coerce.number().int().positive().finite().default(10),
+    // Levels per side for the depth-weighted fair price
+    POLY_FAIR_PRICE_LEVELS: z.coerce.number().int().positive().finite().default(3),
+    // ws = CLOB market channel with local book, poll = REST polling fallback
+    POLY_FEED_MODE: z.enum(['ws', 'poll']).default('ws'),
+    POLY_WS_URL: z.string().default('wss://ws-subscriptions-clob.polymarket.com/ws/market'),
+    POLY_WS_PING_MS: z.coerce.number().int().positive().finite().default(10000),
+    POLY_WS_STALE_MS: z.coerce.number().int().positive().finite().default(30000),
 
     // Gamma Market Discovery
     POLY_GAMMA_QUERY: z.string().optional(),
@@ -38,7 +123,28 @@ const envSchema = z.object({
     ARB_MIN_POLY_DEPTH: z.coerce.number().positive().finite().default(50),
     ARB_MAX_POLY_SPREAD_BPS: z.coerce.number().positive().finite().default(80),
     ARB_MIN_EDGE_BPS: z.coerce.number().positive().finite().default(20),
+    // Discard once the token has moved this fraction of the model's implied move
+    ARB_MAX_REPRICED_FRACTION: z.coerce.number().positive().finite().default(0.5),
     ARB_COOLDOWN_MS: z.coerce.number().int().positive().finite().default(15000),
+    // Max age of the spot sample behind a move / of the latest Polymarket snapshot
+    ARB_MAX_SPOT_AGE_MS: z.coerce.number().int().positive().finite().default(3000),
+    ARB_MAX_POLY_AGE_MS: z.coerce.number().int().positive().finite().default(15000),
+    // Refuse signals this close to (or past) the market end date
+    ARB_RESOLUTION_BLACKOUT_MS: z.coerce.number().int().nonnegative().finite().default(60000),
+    // Polymarket price the edge is measured against
+    ARB_POLY_PRICE_SOURCE: z.enum(['mid', 'microprice', 'depth_weighted']).default('mid'),
+    // Trade flow confirmation (0 = disabled)
+    ARB_MIN_FLOW_IMBALANCE: z.coerce.number().min(0).max(1).default(0),
+    ARB_MIN_FLOW_NOTIONAL: z.coerce.number().nonnegative().finite().default(0),
+    // Strategy instances (JSON file); unset runs a single `latency` strategy on the ARB_* values
+    ARB_STRATEGY_FILE: z.string().optional(),
+    ARB_STRATEGY_TIMER_MS: z.coerce.number().int().positive().finite().default(1000),
+    // Signal mark-outs: CSV of horizons after the signal (ms); empty = off
+    ARB_MARKOUT_HORIZONS_MS: z.string().default('1000,5000,30000,120000')
+        .transform(val => val.split(',').map(v => v.trim()).filter(v => v.length > 0).map(Number))
+        .pipe(z.array(z.number().int().positive().finite())),
+    // Running mark-out stats summary interval (0 = off)
+    ARB_MARKOUT_SUMMARY_MS: z.coerce.number().int().nonnegative().finite().default(60000),
 });
 
 // Parse and validate environment variables
@@ -46,10 +152,19 @@ function validateEnv() {
     try {
         const parsed = envSchema.parse(process.env);
 
-        // Additional validation: POLYMARKET_TOKEN_ID required for bot mode
-        if (!isGammaScript && !parsed.POLYMARKET_TOKEN_ID) {
+        // Single-horizon default keeps SPOT_RETURN_WINDOW_MS behavior
+        if (parsed.SPOT_RETURN_HORIZONS_MS.length === 0) {
+            parsed.SPOT_RETURN_HORIZONS_MS = [parsed.SPOT_RETURN_WINDOW_MS];
+        }
+
+        // Additional validation: at least one token required for bot mode
+        const hasTokens = parsed.POLYMARKET_TOKEN_ID ||
+            parsed.POLYMARKET_TOKEN_IDS.length > 0 ||
+            parsed.POLYMARKET_TOKEN_FILE;
+
+        if (!isGammaScript && !hasTokens) {
             console.error('❌ Invalid environment variables:');
-            console.error('  - POLYMARKET_TOKEN_ID: Required for bot mode');
+            console.error('  - POLYMARKET_TOKEN_ID (or POLYMARKET_TOKEN_IDS / POLYMARKET_TOKEN_FILE): Required for bot mode');
             console.error('');
             console.error('To find a market:');
             console.error('  1. Run: npm run gamma:search');
@@ -0,0 +1,213 @@
+import { logger } from '../../infra/logger.js';
+import { env } from '../../config/env.js';
+import { TypedEventEmitter } from '../../infra/typed_emitter.js';
+import type {
+    ComplementBookEvents,
+    ConsolidatedQuote,
+    OutcomePair,
+    ParityDeviation,
+    PolyMarketData,
+} from './types.js';
+
+/**
+ * YES/NO Complementary Book Consolidator
+ *
+ * Consumes per-token market data and emits a `quote` with the effective
+ * best bid/ask per outcome, taking the complement's book into account.
+ * Emits `parity` when a pair's YES+NO sums drift beyond
+ * POLY_PARITY_MAX_DEVIATION (once per excursion).
+ *
+ * Tokens without a resolved pair pass through with their direct prices.
+ */
+export class ComplementBook extends TypedEventEmitter<ComplementBookEvents> {
+    // tokenId -> pair containing it
+    private pairs = new Map<string, OutcomePair>();
+
+    // tokenId -> latest market data
+    private latest = new Map<string, PolyMarketData>();
+
+    // Pairs currently outside the parity threshold
+    private deviating = new Set<string>();
+
+    constructor(pairs: OutcomePair[] = []) {
+        super();
+
+        for (const pair of pairs) {
+            this.pairs.set(pair.yes.tokenId, pair);
+            this.pairs.set(pair.no.tokenId, pair);
+        }
+    }
+
+    /**
+     * Apply a token update and re-emit both sides of its pair
+     */
+    public update(data: PolyMarketData): void {
+        this.latest.set(data.tokenId, data);
+
+        const pair = this.pairs.get(data.tokenId);
+        if (!pair) {
+            this.emit('quote', this.consolidate(data, null, null));
+            return;
+        }
+
+        const complementId = pair.yes.tokenId === data.tokenId ? pair.no.tokenId : pair.yes.tokenId;
+        const complement = this.latest.get(complementId);
+
+        // Complement missing or too old to combine with
+        if (!complement || Math.abs(data.tsLocal - complement.tsLocal) > env.POLY_COMPLEMENT_MAX_SKEW_MS) {
+            this.emit('quote', this.consolidate(data, null, this.outcomeOf(pair, data.tokenId)));
+            return;
+        }
+
+        this.emit('quote', this.consolidate(data, complement, this.outcomeOf(pair, data.tokenId)));
+        this.emit('quote', this.consolidate(complement, data, this.outcomeOf(pair, complementId)));
+
+        const yes = this.latest.get(pair.yes.tokenId)!;
+        const no = this.latest.get(pair.no.tokenId)!;
+        this.checkParity(pair, yes, no);
+    }
+
+    /**
+     * Latest consolidated quote for a token
+     */
+    public getQuote(tokenId: string): ConsolidatedQuote | null {
+        const data = this.latest.get(tokenId);
+        if (!data) {
+            return null;
+        }
+
+        const pair = this.pairs.get(tokenId);
+        if (!pair) {
+            return this.consolidate(data, null, null);
+        }
+
+        const complementId = pair.yes.tokenId === tokenId ? pair.no.tokenId : pair.yes.tokenId;
+        const complement = this.latest.get(complementId);
+        const fresh = complement && Math.abs(data.tsLocal - complement.tsLocal) <= env.POLY_COMPLEMENT_MAX_SKEW_MS;
+
+        return this.consolidate(data, fresh ? complement : null, this.outcomeOf(pair, tokenId));
+    }
+
+    /**
+     * Effective bid/ask for a token given its complement's book
+     */
+    private consolidate(
+        data: PolyMarketData,
+        complement: PolyMarketData | null,
+        outcome: string | null
+    ): ConsolidatedQuote {
+        let effectiveBid = data.bestBid;
+        let effectiveAsk = data.bestAsk;
+        let bidSource: ConsolidatedQuote['bidSource'] = 'direct';
+        let askSource: ConsolidatedQuote['askSource'] = 'direct';
+
+        if (complement) {
+            // Selling YES at p == buying NO at 1 - p
+            const impliedBid = 1 - complement.bestAsk;
+            const impliedAsk = 1 - complement.bestBid;
+
+            if (impliedBid > effectiveBid) {
+                effectiveBid = impliedBid;
+                bidSource = 'complement';
+            }
+
+            if (impliedAsk < effectiveAsk) {
+                effectiveAsk = impliedAsk;
+                askSource = 'complement';
+            }
+        }
+
+        const effectiveMid = (effectiveBid + effectiveAsk) / 2;
+
+        // Estimators over the combined book so every price source sees the
+        // same consolidation as the effective bid/ask
+        const book = complement ? data.book.withComplement(complement.book) : data.book;
+        const microPrice = complement ? book.microPrice ?? effectiveMid : data.microPrice;
+        const depthWeightedPrice = complement
+            ? book.depthWeightedPrice(env.POLY_FAIR_PRICE_LEVELS) ?? effectiveMid
+            : data.depthWeightedPrice;
+
+        return {
+            tokenId: data.tokenId,
+            complementTokenId: complement?.tokenId ?? null,
+            outcome,
+            bestBid: data.bestBid,
+            bestAsk: data.bestAsk,
+            effectiveBid,
+            effectiveAsk,
+            effectiveMid,
+            effectiveSpreadBps: ((effectiveAsk - effectiveBid) / effectiveMid) * 10000,
+            microPrice,
+            depthWeightedPrice,
+            bidSource,
+            askSource,
+            depthTopN: data.depthTopN,
+            // A quote re-derived from a fresher complement is as new as that update
+            tsLocal: complement ? Math.max(data.tsLocal, complement.tsLocal) : data.tsLocal,
+        };
+    }
+
+    /**
+     * Emit `parity` when a pair first leaves the threshold, log when it returns
+     */
+    private checkParity(pair: OutcomePair, yes: PolyMarketData, no: PolyMarketData): void {
+        const midSum = yes.midPrice + no.midPrice;
+        const bidSum = yes.bestBid + no.bestBid;
+        const askSum = yes.bestAsk + no.bestAsk;
+
+        const deviation = Math.max(
+            Math.abs(midSum - 1),
+            bidSum - 1,
+            1 - askSum
+        );
+        const threshold = env.POLY_PARITY_MAX_DEVIATION;
+
+        if (deviation <= threshold) {
+            if (this.deviating.delete(pair.conditionId)) {
+                logger.info('poly.parity_restored', {
+                    conditionId: pair.conditionId,
+                    midSum: midSum.toFixed(4),
+                });
+            }
+            return;
+        }
+
+        if (this.deviating.has(pair.conditionId)) {
+            return;
+        }
+
+        this.deviating.add(pair.conditionId);
+
+        const event: ParityDeviation = {
+            conditionId: pair.conditionId,
+            yesTokenId: pair.yes.tokenId,
+            noTokenId: pair.no.tokenId,
+            midSum,
+            bidSum,
+            askSum,
+            deviation,
+            threshold,
+            tsLocal: Math.max(yes.tsLocal, no.tsLocal),
+        };
+
+        logger.warn('poly.parity', {
+            conditionId: event.conditionId,
+            yesTokenId: event.yesTokenId,
+            noTokenId: event.noTokenId,
+            midSum: midSum.toFixed(4),
+            bidSum: bidSum.toFixed(4),
+            askSum: askSum.toFixed(4),
+            deviation: deviation.toFixed(4),
+            threshold,
+        });
+
+        this.emit('parity', event);
+    }
+
+    /**
+     * Outcome label of a token within its pair
+     */
+    private outcomeOf(pair: OutcomePair, tokenId: string): string {
+        return pair.yes.tokenId === tokenId ? pair.yes.outcome : pair.no.outcome;
+    }
+}
@@ -44,3 +44,42 @@ export interface GammaMarketSimplified {
     enableOrderBook?: boolean;
     tradability: 'confirmed' | 'unknown';
 }
+
+/**
+ * Payoff condition of a price-threshold market
+ * - above / below: price vs strike (at settlement, or touched before it for barriers)
+ * - between: strike <= price < upperStrike at settlement
+ */
+export type MarketTermsDirection = 'above' | 'below' | 'between';
+
+/**
+ * Structured terms parsed from a market question
+ */
+export interface MarketTerms {
+    underlying: string;         // Canonical asset, e.g. BTC
+    symbol: string;             // Binance spot symbol, e.g. BTCUSDT
+    direction: MarketTermsDirection;
+    strike: number;             // Lower bound for `between`
+    upperStrike?: number;       // Upper bound for `between`
+    barrier: boolean;           // "reach" / "dip to": touched any time before settlement
+    settlement: number;         // Resolution time (ms)
+    timeZone: string;           // IANA zone the question's date/time is expressed in
+    timeAssumed: boolean;       // True if no time of day was given and a default was used
+}
+
+/**
+ * Why a question could not be parsed into terms
+ */
+export type MarketTermsFailure =
+    | 'unknown_underlying'
+    | 'ambiguous_underlying'
+    | 'no_strike'
+    | 'invalid_range'
+    | 'no_settlement';
+
+/**
+ * Result of parsing a market question
+ */
+export type MarketTermsResult =
+    | { ok: true; terms: MarketTerms }
+    | { ok: false; reason: MarketTermsFailure; detail: string };
@@ -0,0 +1,109 @@
+import { createHash } from 'crypto';
+import type { PolyOrderbook, PolyOrderbookLevel } from './types.js';
+
+/**
+ * Locally maintained order book for one Polymarket asset
+ *
+ * Levels are keyed by the exchange's price string so the book can be
+ * serialized back exactly as received (needed for hash comparison).
+ */
+export class LocalOrderbook {
+    private bids = new Map<string, string>();
+    private asks = new Map<string, string>();
+
+    constructor(
+        public readonly assetId: string,
+        public readonly market: string = ''
+    ) {}
+
+    /**
+     * Replace the whole book
+     */
+    public applySnapshot(bids: PolyOrderbookLevel[], asks: PolyOrderbookLevel[]): void {
+        this.bids = new Map(bids.map(level => [level.price, level.size]));
+        this.asks = new Map(asks.map(level => [level.price, level.size]));
+    }
+
+    /**
+     * Set one level; a zero size removes it
+     */
+    public applyChange(side: 'BUY' | 'SELL', price: string, size: string): void {
+        const levels = side === 'BUY' ? this.bids : this.asks;
+
+        if (parseFloat(size) === 0) {
+            levels.delete(price);
+        } else {
+            levels.set(price, size);
+        }
+    }
+
+    /**
+     * Highest bid price, or null if no bids
+     */
+    public bestBid(): number | null {
+        let best: number | null = null;
+        for (const price of this.bids.keys()) {
+            const value = parseFloat(price);
+            if (best === null || value > best) {
+                best = value;
+            }
+        }
+        return best;
+    }
+
+    /**
+     * Lowest ask price, or null if no asks
+     */
+    public bestAsk(): number | null {
+        let best: number | null = null;
+        for (const price of this.asks.keys()) {
+            const value = parseFloat(price);
+            if (best === null || value < best) {
+                best = value;
+            }
+        }
+        return best;
+    }
+
+    /**
+     * Book as a REST-shaped orderbook
+     */
+    public toOrderbook(): PolyOrderbook {
+        return {
+            bids: this.levels(this.bids),
+            asks: this.levels(this.asks),
+            market: this.market,
+        };
+    }
+
+    /**
+     * SHA-1 of the book summary, laid out like the CLOB hash
+     * (bids ascending, asks descending, hash field blank)
+     */
+    public hash(timestamp: string): string {
+        const summary = {
+            market: this.market,
+            asset_id: this.assetId,
+            timestamp,
+            hash: '',
+            bids: this.levels(this.bids).sort((a, b) => parseFloat(a.price) - parseFloat(b.price)),
+            asks: this.levels(this.asks).sort((a, b) => parseFloat(b.price) - parseFloat(a.price)),
+        };
+
+        return createHash('sha1').update(JSON.stringify(summary)).digest('hex');
+    }
+
+    /**
+     * Level count per side
+     */
+    public size(): { bids: number; asks: number } {
+        return { bids: this.bids.size, asks: this.asks.size };
+    }
+
+    /**
+     * Levels of one side in insertion order
+     */
+    private levels(side: Map<string, string>): PolyOrderbookLevel[] {
+        return Array.from(side.entries()).map(([price, size]) => ({ price, size }));
+    }
+}
@@ -1,25 +1,79 @@
 import { logger } from '../../infra/logger.js';
 import { env } from '../../config/env.js';
+import { TypedEventEmitter } from '../../infra/typed_emitter.js';
 import { PolyClient } from './poly_client.js';
-import type { PolyMarketData, PolyOrderbook, PolyOrderbookLevel } from './types.js';
+import { loadWatchList } from './watch_list.js';
+import { OrderBook, toMarketData } from './order_book.js';
+import type {
+    PolyFeed,
+    PolyFeedEvents,
+    PolyMarketData,
+    PolyOrderbook,
+    WatchedToken,
+} from './types.js';
 
 /**
- * Polymarket Market Data Feed
+ * Per-token polling state
  */
-export class PolymarketFeed {
+interface TokenPollState {
+    tokenId: string;
+    consecutiveErrors: number;
+    nextDueAt: number;          // Earliest time the token may be polled again
+    lastPolledAt: number;
+    burstUntil: number;         // Poll at the burst interval until then
+}
+
+/**
+ * Caller waiting for an on-demand refresh to complete
+ */
+interface RefreshWaiter {
+    requestedAt: number;
+    pending: Set<string>;
+    done: Promise<void>;
+    resolve: () => void;
+    timer: NodeJS.Timeout;
+}
+
+/**
+ * Polymarket Market Data Feed (REST polling)
+ *
+ * Polls a watch-list of tokens and emits `snapshot` with normalized
+ * market data per token after every successful fetch. Fallback for the
+ * streaming PolymarketWsFeed (POLY_FEED_MODE=poll); prints (`trade`) are
+ * only available from the streaming feed.
+ *
+ * Each cycle fetches up to POLY_BATCH_SIZE due tokens in one batched
+ * request, least recently polled first. Backoff is tracked per token, so
+ * a failing token only delays itself; if a batch fails as a whole its
+ * tokens are retried individually to isolate the bad one.
+ *
+ * refresh() makes tokens due immediately (skipping any in error backoff)
+ * and resolves once they have been fetched; tokens already awaiting a
+ * refresh join it rather than queueing another. burst() polls tokens at
+ * POLY_BURST_INTERVAL_MS for a while. Both go through the same loop, so
+ * the inFlight guard and POLY_MIN_REQUEST_INTERVAL_MS still apply.
+ */
+export class PolymarketFeed extends TypedEventEmitter<PolyFeedEvents> implements PolyFeed {
     private client: PolyClient;
     private pollTimer: NodeJS.Timeout | null = null;
     private inFlight = false;
     private isRunning = false;
-    private consecutiveErrors = 0;
-    private currentBackoffMs = 0;
+    private lastRequestAt = 0;
+    private refreshWaiters: RefreshWaiter[] = [];
 
-    private readonly tokenId: string;
+    private readonly tokens: TokenPollState[];
     private readonly baseIntervalMs: number;
     private readonly maxBackoffMs = 30000;
 
-    constructor() {
-        this.tokenId = env.POLYMARKET_TOKEN_ID;
+    constructor(watchList: WatchedToken[] = loadWatchList()) {
+        super();
+        this.tokens = watchList.map(({ tokenId }) => ({
+            tokenId,
+            consecutiveErrors: 0,
+            nextDueAt: 0,
+            lastPolledAt: 0,
+            burstUntil: 0,
+        }));
         this.baseIntervalMs = env.POLY_SNAPSHOT_INTERVAL_MS;
         this.client = new PolyClient();
     }
@@ -30,18 +84,22 @@ export class PolymarketFeed {
     public start(): void {
         if (this.isRunning) {
             logger.warn('poly.feed.already_running', {
-                tokenId: this.tokenId,
+                tokens: this.tokens.length,
             });
             return;
         }
 
         this.isRunning = true;
-        this.consecutiveErrors = 0;
-        this.currentBackoffMs = 0;
+        for (const token of this.tokens) {
+            token.consecutiveErrors = 0;
+            token.nextDueAt = 0;
+        }
 
         logger.info('poly.feed.started', {
-            tokenId: this.tokenId,
+            mode: 'poll',
+            tokenIds: this.tokens.map(t => t.tokenId),
             interval: this.baseIntervalMs,
+            batchSize: env.POLY_BATCH_SIZE,
             depthLevels: env.POLY_DEPTH_LEVELS,
         });
 
@@ -60,22 +118,140 @@ export class PolymarketFeed {
 
         this.isRunning = false;
 
+        for (const waiter of [...this.refreshWaiters]) {
+            this.settleWaiter(waiter);
+        }
+
         logger.info('poly.feed.stopped', {
-            tokenId: this.tokenId,
+            tokens: this.tokens.length,
+        });
+    }
+
+    /**
+     * Fetch tokens as soon as rate limits allow
+     * @returns Resolves when all were fetched, or after POLY_REFRESH_TIMEOUT_MS
+     */
+    public refresh(tokenIds: string[]): Promise<void> {
+        const now = Date.now();
+
+        if (!this.isRunning) {
+            return Promise.resolve();
+        }
+
+        // Tokens in error backoff keep their schedule; tokens with a refresh
+        // already pending wait on that one
+        const joined = new Set<Promise<void>>();
+        const targets = this.tokens.filter(t => {
+            if (!tokenIds.includes(t.tokenId) || (t.consecutiveErrors > 0 && t.nextDueAt > now)) {
+                return false;
+            }
+
+            const pending = this.refreshWaiters.find(w => w.pending.has(t.tokenId));
+            if (pending) {
+                joined.add(pending.done);
+                return false;
+            }
+
+            return true;
+        });
+
+        if (targets.length === 0) {
+            return Promise.all(joined).then(() => undefined);
+        }
+
+        for (const token of targets) {
+            token.nextDueAt = 0;
+        }
+
+        logger.debug('poly.refresh.requested', {
+            tokenIds: targets.map(t => t.tokenId),
+            joined: joined.size,
+            inFlight: this.inFlight,
+        });
+
+        let resolve!: () => void;
+        const done = new Promise<void>(r => {
+            resolve = r;
+        });
+        const waiter: RefreshWaiter = {
+            requestedAt: now,
+            pending: new Set(targets.map(t => t.tokenId)),
+            done,
+            resolve,
+            timer: setTimeout(() => this.settleWaiter(waiter), env.POLY_REFRESH_TIMEOUT_MS),
+        };
+        this.refreshWaiters.push(waiter);
+
+        this.reschedule();
+
+        return Promise.all([done, ...joined]).then(() => undefined);
+    }
+
+    /**
+     * Poll tokens at the burst interval for `durationMs`
+     */
+    public burst(tokenIds: string[], durationMs: number = env.POLY_BURST_DURATION_MS): void {
+        const now = Date.now();
+        const until = now + durationMs;
+
+        for (const token of this.tokens) {
+            if (!tokenIds.includes(token.tokenId)) {
+                continue;
+            }
+
+            token.burstUntil = Math.max(token.burstUntil, until);
+
+            // Pull the next regular poll forward (error backoff still wins)
+            if (token.consecutiveErrors === 0) {
+                token.nextDueAt = Math.min(token.nextDueAt, now + env.POLY_BURST_INTERVAL_MS);
+            }
+        }
+
+        this.reschedule();
+
+        logger.debug('poly.burst.started', {
+            tokenIds,
+            durationMs,
+            intervalMs: env.POLY_BURST_INTERVAL_MS,
         });
     }
 
+    /**
+     * Re-arm the poll timer after tokens became due earlier
+     *
+     * An in-flight poll reschedules on completion and picks them up.
+     */
+    private reschedule(): void {
+        if (!this.isRunning || this.inFlight) {
+            return;
+        }
+
+        if (this.pollTimer) {
+            clearTimeout(this.pollTimer);
+            this.pollTimer = null;
+        }
+        this.schedulePoll();
+    }
+
     /**
      * Schedule next poll with setTimeout (no overlap)
+     *
+     * Wakes when the next token is due, but never sooner than the
+     * minimum request interval after the previous request.
      */
     private schedulePoll(): void {
-        if (!this.isRunning) {
+        // Nothing to poll (Math.min of no tokens would be Infinity)
+        if (!this.isRunning || this.tokens.length === 0) {
             return;
         }
 
-        const delay = this.currentBackoffMs > 0
-            ? this.currentBackoffMs
-            : this.baseIntervalMs;
+        const now = Date.now();
+        const nextDueAt = Math.min(...this.tokens.map(t => t.nextDueAt));
+        const delay = Math.max(
+            nextDueAt - now,
+            this.lastRequestAt + env.POLY_MIN_REQUEST_INTERVAL_MS - now,
+            0
+        );
 
         this.pollTimer = setTimeout(async () => {
             await this.poll();
@@ -84,81 +260,176 @@ export class PolymarketFeed {
     }
 
     /**
-     * Poll for market data (async, no overlap)
+     * Poll the next batch of due tokens (async, no overlap)
      */
     private async poll(): Promise<void> {
         // Guard against concurrent polls
         if (this.inFlight) {
             logger.warn('poly.poll.skipped', {
-                tokenId: this.tokenId,
                 reason: 'previous poll still in flight',
             });
             return;
         }
 
+        const now = Date.now();
+
+        // Most overdue first (refreshes are due at 0), then least recently
+        // polled, so every token gets its turn
+        const batch = this.tokens
+            .filter(t => t.nextDueAt <= now)
+            .sort((a, b) => (a.nextDueAt - b.nextDueAt) || (a.lastPolledAt - b.lastPolledAt))
+            .slice(0, env.POLY_BATCH_SIZE);
+
+        if (batch.length === 0) {
+            return;
+        }
+
         this.inFlight = true;
 
         try {
-            const orderbook = await this.client.getOrderbook(this.tokenId);
+            for (const token of batch) {
+                token.lastPolledAt = now;
+            }
+            this.lastRequestAt = now;
 
-            if (!orderbook) {
-                this.handlePollError(new Error('No orderbook data returned'));
+            const orderbooks = batch.length === 1
+                ? await this.fetchOne(batch[0].tokenId)
+                : await this.client.getOrderbooks(batch.map(t => t.tokenId));
+
+            if (orderbooks) {
+                for (const token of batch) {
+                    this.handleOrderbook(token, orderbooks.get(token.tokenId));
+                }
                 return;
             }
 
-            const marketData = this.normalizeOrderbook(orderbook);
-
-            if (marketData) {
-                // Success - reset backoff
-                this.consecutiveErrors = 0;
-                this.currentBackoffMs = 0;
-
-                logger.info('poly.snapshot', {
-                    tokenId: marketData.tokenId,
-                    midPrice: marketData.midPrice.toFixed(4),
-                    bestBid: marketData.bestBid.toFixed(4),
-                    bestAsk: marketData.bestAsk.toFixed(4),
-                    spreadBps: marketData.spreadBps.toFixed(2),
-                    depthTopN: marketData.depthTopN.toFixed(2),
-                    bidLevels: orderbook.bids.length,
-                    askLevels: orderbook.asks.length,
-                });
-            } else {
-                this.handlePollError(new Error('Failed to normalize orderbook'));
+            if (batch.length === 1) {
+                this.handlePollError(batch[0], new Error('No orderbook data returned'));
+                return;
+            }
+
+            // Whole batch failed: retry individually so one bad token can't sink the rest
+            logger.warn('poly.poll.batch_failed', {
+                tokens: batch.length,
+            });
+
+            for (const token of batch) {
+                this.handleOrderbook(token, (await this.fetchOne(token.tokenId))?.get(token.tokenId));
             }
         } catch (error) {
-            this.handlePollError(error);
+            for (const token of batch) {
+                this.handlePollError(token, error);
+            }
         } finally {
             this.inFlight = false;
+            this.completeRefreshes(batch, now);
         }
     }
 
     /**
-     * Handle polling errors with exponential backoff
+     * Resolve refresh waiters whose tokens have all been fetched
+     *
+     * A batch that was already in flight when the refresh was requested
+     * doesn't count; its tokens are made due again instead.
+     */
+    private completeRefreshes(batch: TokenPollState[], polledAt: number): void {
+        for (const waiter of [...this.refreshWaiters]) {
+            for (const token of batch) {
+                if (!waiter.pending.has(token.tokenId)) {
+                    continue;
+                }
+
+                if (polledAt >= waiter.requestedAt) {
+                    waiter.pending.delete(token.tokenId);
+                } else if (token.consecutiveErrors === 0) {
+                    token.nextDueAt = 0;
+                }
+            }
+
+            if (waiter.pending.size === 0) {
+                this.settleWaiter(waiter);
+            }
+        }
+    }
+
+    /**
+     * Resolve and drop a refresh waiter
+     */
+    private settleWaiter(waiter: RefreshWaiter): void {
+        clearTimeout(waiter.timer);
+        this.refreshWaiters = this.refreshWaiters.filter(w => w !== waiter);
+        waiter.resolve();
+    }
+
+    /**
+     * Fetch a single token's orderbook in the batched result shape
      */
-    private handlePollError(error: unknown): void {
-        this.consecutiveErrors++;
+    private async fetchOne(tokenId: string): Promise<Map<string, PolyOrderbook> | null> {
+        const orderbook = await this.client.getOrderbook(tokenId);
+        return orderbook ? new Map([[tokenId, orderbook]]) : null;
+    }
+
+    /**
+     * Normalize and emit one token's orderbook
+     */
+    private handleOrderbook(token: TokenPollState, orderbook: PolyOrderbook | undefined): void {
+        if (!orderbook) {
+            this.handlePollError(token, new Error('No orderbook data returned'));
+            return;
+        }
+
+        const marketData = this.normalizeOrderbook(token.tokenId, orderbook);
+
+        if (!marketData) {
+            this.handlePollError(token, new Error('Failed to normalize orderbook'));
+            return;
+        }
+
+        // Success - reset backoff
+        const now = Date.now();
+        token.consecutiveErrors = 0;
+        token.nextDueAt = now + (token.burstUntil > now ? env.POLY_BURST_INTERVAL_MS : this.baseIntervalMs);
+
+        logger.info('poly.snapshot', {
+            tokenId: marketData.tokenId,
+            midPrice: marketData.midPrice.toFixed(4),
+            bestBid: marketData.bestBid.toFixed(4),
+            bestAsk: marketData.bestAsk.toFixed(4),
+            spreadBps: marketData.spreadBps.toFixed(2),
+            depthTopN: marketData.depthTopN.toFixed(2),
+            bidLevels: orderbook.bids.length,
+            askLevels: orderbook.asks.length,
+        });
+
+        this.emit('snapshot', marketData);
+    }
+
+    /**
+     * Handle a token's polling error with exponential backoff
+     */
+    private handlePollError(token: TokenPollState, error: unknown): void {
+        token.consecutiveErrors++;
 
         // Calculate backoff: double each time, max 30s
         const backoffMs = Math.min(
-            this.baseIntervalMs * Math.pow(2, this.consecutiveErrors - 1),
+            this.baseIntervalMs * Math.pow(2, token.consecutiveErrors - 1),
             this.maxBackoffMs
         );
 
-        this.currentBackoffMs = backoffMs;
+        token.nextDueAt = Date.now() + backoffMs;
 
         logger.error('poly.poll.error', {
-            tokenId: this.tokenId,
+            tokenId: token.tokenId,
             error: error instanceof Error ? error.message : String(error),
-            consecutiveErrors: this.consecutiveErrors,
+            consecutiveErrors: token.consecutiveErrors,
             nextBackoffMs: backoffMs,
         });
 
-        if (this.consecutiveErrors > 1) {
+        if (token.consecutiveErrors > 1) {
             logger.warn('poly.poll.backoff', {
-                tokenId: this.tokenId,
+                tokenId: token.tokenId,
                 backoffMs,
-                consecutiveErrors: this.consecutiveErrors,
+                consecutiveErrors: token.consecutiveErrors,
             });
         }
     }
@@ -166,100 +437,18 @@ export class PolymarketFeed {
     /**
      * Normalize orderbook to PolyMarketData
      */
-    private normalizeOrderbook(orderbook: PolyOrderbook): PolyMarketData | null {
-        // Check if we have valid bids and asks
-        if (!orderbook.bids || orderbook.bids.length === 0 ||
-            !orderbook.asks || orderbook.asks.length === 0) {
+    private normalizeOrderbook(tokenId: string, orderbook: PolyOrderbook): PolyMarketData | null {
+        const book = OrderBook.fromLevels(tokenId, orderbook.bids, orderbook.asks);
+
+        if (!book.isValid()) {
             logger.warn('poly.orderbook.invalid', {
-                tokenId: this.tokenId,
+                tokenId,
                 bids: orderbook.bids?.length || 0,
                 asks: orderbook.asks?.length || 0,
             });
             return null;
         }
 
-        // Sort bids descending (highest first), asks ascending (lowest first)
-        const sortedBids = this.sortBidsDesc(orderbook.bids);
-        const sortedAsks = this.sortAsksAsc(orderbook.asks);
-
-        // Parse best bid and ask from sorted arrays
-        const bestBid = parseFloat(sortedBids[0].price);
-        const bestAsk = parseFloat(sortedAsks[0].price);
-
-        if (isNaN(bestBid) || isNaN(bestAsk) || bestBid <= 0 || bestAsk <= 0) {
-            logger.error('poly.orderbook.invalid_prices', {
-                tokenId: this.tokenId,
-                bestBid,
-                bestAsk,
-            });
-            return null;
-        }
-
-        // Calculate mid price
-        const midPrice = (bestBid + bestAsk) / 2;
-
-        // Calculate spread in basis points
-        const spreadBps = ((bestAsk - bestBid) / midPrice) * 10000;
-
-        // Calculate depth in top N levels
-        const depthTopN = this.calculateDepth(sortedBids, sortedAsks);
-
-        return {
-            tokenId: this.tokenId,
-            midPrice,
-            bestBid,
-            bestAsk,
-            spreadBps,
-            depthTopN,
-            tsLocal: Date.now(),
-        };
-    }
-
-    /**
-     * Sort bids in descending order by price (highest first)
-     */
-    private sortBidsDesc(bids: PolyOrderbookLevel[]): PolyOrderbookLevel[] {
-        return [...bids].sort((a, b) => {
-            const priceA = parseFloat(a.price);
-            const priceB = parseFloat(b.price);
-            return priceB - priceA; // descending
-        });
-    }
-
-    /**
-     * Sort asks in ascending order by price (lowest first)
-     */
-    private sortAsksAsc(asks: PolyOrderbookLevel[]): PolyOrderbookLevel[] {
-        return [...asks].sort((a, b) => {
-            const priceA = parseFloat(a.price);
-            const priceB = parseFloat(b.price);
-            return priceA - priceB; // ascending
-        });
-    }
-
-    /**
-     * Calculate total depth in top N levels
-     */
-    private calculateDepth(sortedBids: PolyOrderbookLevel[], sortedAsks: PolyOrderbookLevel[]): number {
-        const topN = env.POLY_DEPTH_LEVELS;
-        let totalDepth = 0;
-
-        // Sum top N bid levels
-        for (let i = 0; i < Math.min(topN, sortedBids.length); i++) {
-            const size = parseFloat(sortedBids[i].size);
-            if (!isNaN(size)) {
-                totalDepth += size;
-            }
-        }
-
-        // Sum top N ask levels
-        for (let i = 0; i < Math.min(topN, sortedAsks.length); i++) {
-            const size = parseFloat(sortedAsks[i].size);
-            if (!isNaN(size)) {
-                totalDepth += size;
-            }
-        }
-
-        return totalDepth;
+        return toMarketData(book, env.POLY_DEPTH_LEVELS);
     }
 }
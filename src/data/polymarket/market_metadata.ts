@@ -0,0 +1,170 @@
+import { logger } from '../../infra/logger.js';
+import { env } from '../../config/env.js';
+import { TypedEventEmitter } from '../../infra/typed_emitter.js';
+import { PolyClient } from './poly_client.js';
+import type { MarketMetadata, MarketMetadataEvents, TradeBlockReason } from './types.js';
+
+/**
+ * Reason a market must not be traded at `now`, or null if tradable
+ */
+export function checkTradable(
+    metadata: MarketMetadata,
+    now: number = Date.now(),
+    blackoutMs: number = env.ARB_RESOLUTION_BLACKOUT_MS
+): TradeBlockReason | null {
+    if (metadata.closed || !metadata.active || !metadata.acceptingOrders) {
+        return 'market_closed';
+    }
+
+    if (metadata.endDate !== null) {
+        if (now >= metadata.endDate) {
+            return 'past_end_date';
+        }
+
+        if (metadata.endDate - now < blackoutMs) {
+            return 'resolution_blackout';
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Market Metadata Service
+ *
+ * Fetches and caches tick size, minimum order size, neg-risk flag and
+ * end date per market. Tokens are mapped to their market (condition ID)
+ * through the orderbook, which names it. Emits `metadata` on every fetch
+ * and refreshes tracked markets every POLY_METADATA_TTL_MS once started.
+ */
+export class MarketMetadataService extends TypedEventEmitter<MarketMetadataEvents> {
+    // conditionId -> metadata
+    private markets = new Map<string, MarketMetadata>();
+
+    // tokenId -> conditionId
+    private conditionOf = new Map<string, string>();
+
+    private refreshTimer: NodeJS.Timeout | null = null;
+
+    constructor(
+        private readonly client: PolyClient = new PolyClient(),
+        private readonly ttlMs: number = env.POLY_METADATA_TTL_MS
+    ) {
+        super();
+    }
+
+    /**
+     * Load metadata for tokens (cached entries within TTL are reused)
+     */
+    public async load(tokenIds: string[]): Promise<MarketMetadata[]> {
+        const unmapped = tokenIds.filter(tokenId => !this.conditionOf.has(tokenId));
+
+        for (let i = 0; i < unmapped.length; i += env.POLY_BATCH_SIZE) {
+            const orderbooks = await this.client.getOrderbooks(unmapped.slice(i, i + env.POLY_BATCH_SIZE));
+
+            for (const [tokenId, orderbook] of orderbooks?.entries() ?? []) {
+                if (orderbook.market) {
+                    this.conditionOf.set(tokenId, orderbook.market);
+                }
+            }
+        }
+
+        const conditionIds = new Set(
+            tokenIds
+                .map(tokenId => this.conditionOf.get(tokenId))
+                .filter((id): id is string => id !== undefined)
+        );
+
+        const loaded: MarketMetadata[] = [];
+        for (const conditionId of conditionIds) {
+            const metadata = await this.getByCondition(conditionId);
+            if (metadata) {
+                loaded.push(metadata);
+            }
+        }
+
+        const missing = tokenIds.filter(tokenId => !this.get(tokenId));
+        if (missing.length > 0) {
+            logger.warn('poly.metadata.unresolved', {
+                tokenIds: missing,
+            });
+        }
+
+        return loaded;
+    }
+
+    /**
+     * Metadata for a market, fetched if missing or older than the TTL
+     */
+    public async getByCondition(conditionId: string, force: boolean = false): Promise<MarketMetadata | null> {
+        const cached = this.markets.get(conditionId);
+        if (cached && !force && Date.now() - cached.fetchedAt < this.ttlMs) {
+            return cached;
+        }
+
+        const metadata = await this.client.getMarket(conditionId);
+        if (!metadata) {
+            // Keep serving the stale entry rather than nothing
+            return cached ?? null;
+        }
+
+        this.markets.set(conditionId, metadata);
+        for (const token of metadata.tokens) {
+            this.conditionOf.set(token.tokenId, conditionId);
+        }
+
+        logger.info('poly.metadata', {
+            conditionId,
+            question: metadata.question,
+            tickSize: metadata.tickSize,
+            minOrderSize: metadata.minOrderSize,
+            negRisk: metadata.negRisk,
+            endDate: metadata.endDate !== null ? new Date(metadata.endDate).toISOString() : null,
+            acceptingOrders: metadata.acceptingOrders,
+        });
+
+        this.emit('metadata', metadata);
+        return metadata;
+    }
+
+    /**
+     * Cached metadata for a token (no fetch)
+     */
+    public get(tokenId: string): MarketMetadata | null {
+        const conditionId = this.conditionOf.get(tokenId);
+        return conditionId ? this.markets.get(conditionId) ?? null : null;
+    }
+
+    /**
+     * Periodically refresh every cached market
+     */
+    public start(): void {
+        if (this.refreshTimer) {
+            return;
+        }
+
+        this.refreshTimer = setInterval(async () => {
+            for (const conditionId of Array.from(this.markets.keys())) {
+                // One failing market (or throwing listener) must not stop the rest
+                try {
+                    await this.getByCondition(conditionId, true);
+                } catch (error) {
+                    logger.error('poly.metadata.refresh_error', {
+                        conditionId,
+                        error: error instanceof Error ? error.message : String(error),
+                    });
+                }
+            }
+        }, this.ttlMs);
+    }
+
+    /**
+     * Stop periodic refresh
+     */
+    public stop(): void {
+        if (this.refreshTimer) {
+            clearInterval(this.refreshTimer);
+            this.refreshTimer = null;
+        }
+    }
+}
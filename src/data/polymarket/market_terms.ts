@@ -0,0 +1,390 @@
+import type { MarketTerms, MarketTermsDirection, MarketTermsResult } from './gamma_types.js';
+
+/**
+ * Assets recognized in questions, mapped to Binance spot symbols
+ */
+const UNDERLYINGS: { asset: string; symbol: string; pattern: RegExp }[] = [
+    { asset: 'BTC', symbol: 'BTCUSDT', pattern: /\b(?:bitcoin|btc)\b/i },
+    { asset: 'ETH', symbol: 'ETHUSDT', pattern: /\b(?:ethereum|ether|eth)\b/i },
+    { asset: 'SOL', symbol: 'SOLUSDT', pattern: /\b(?:solana|sol)\b/i },
+    { asset: 'XRP', symbol: 'XRPUSDT', pattern: /\b(?:xrp|ripple)\b/i },
+    { asset: 'DOGE', symbol: 'DOGEUSDT', pattern: /\b(?:dogecoin|doge)\b/i },
+    { asset: 'BNB', symbol: 'BNBUSDT', pattern: /\bbnb\b/i },
+    { asset: 'ADA', symbol: 'ADAUSDT', pattern: /\b(?:cardano|ada)\b/i },
+    { asset: 'HYPE', symbol: 'HYPEUSDT', pattern: /\b(?:hyperliquid|hype)\b/i },
+];
+
+/**
+ * Time zone abbreviations used in questions
+ */
+const TIME_ZONES: Record<string, string> = {
+    ET: 'America/New_York',
+    EST: 'America/New_York',
+    EDT: 'America/New_York',
+    CT: 'America/Chicago',
+    CST: 'America/Chicago',
+    CDT: 'America/Chicago',
+    PT: 'America/Los_Angeles',
+    PST: 'America/Los_Angeles',
+    PDT: 'America/Los_Angeles',
+    UTC: 'UTC',
+    GMT: 'UTC',
+};
+
+/**
+ * Polymarket states dates in Eastern Time, and daily price markets
+ * resolve on the 12:00 ET candle unless the question says otherwise
+ */
+const DEFAULT_TIME_ZONE = 'America/New_York';
+const DEFAULT_FIXING_HOUR = 12;
+
+/**
+ * A question date without a year is taken to be at most this far in the past
+ */
+const MAX_PAST_MS = 183 * 24 * 60 * 60 * 1000;
+
+// Dollar amount with optional thousands separators and k/m/b suffix
+const AMOUNT = String.raw`(\$?\s?\d[\d,]*(?:\.\d+)?\s?(?:k|m|b|thousand|million|billion)?)(?![\w])`;
+
+const MONTH = String.raw`(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\.?`;
+const DAY = String.raw`(\d{1,2})(?:st|nd|rd|th)?\b`;
+const YEAR = String.raw`(?:,?\s+(\d{4})\b)?`;
+// "end of", "the end of", "end of (the) year", "year-end"
+const END_OF = String.raw`(?:(?:the\s+)?end\s+of\s+(?:(?:the\s+)?year\s+)?|year[-\s]end\s+)?`;
+
+/**
+ * Strike phrasings, most specific first
+ */
+const STRIKE_PATTERNS: { pattern: RegExp; direction: Exclude<MarketTermsDirection, 'between'>; barrier: boolean }[] = [
+    {
+        pattern: new RegExp(String.raw`\b(?:dips?|falls?|drops?|crash(?:es)?|sinks?)\s+(?:to|below|under)\s+${AMOUNT}`, 'i'),
+        direction: 'below',
+        barrier: true,
+    },
+    {
+        pattern: new RegExp(String.raw`\b(?:reach(?:es)?|hits?|touch(?:es)?|breaks?|surpass(?:es)?)\s+(?:above\s+)?${AMOUNT}`, 'i'),
+        direction: 'above',
+        barrier: true,
+    },
+    {
+        pattern: new RegExp(String.raw`(?:\babove|\bover|\bgreater\s+than|\bhigher\s+than|\bmore\s+than|>=?|≥)\s*${AMOUNT}`, 'i'),
+        direction: 'above',
+        barrier: false,
+    },
+    {
+        pattern: new RegExp(String.raw`(?:\bbelow|\bunder|\bless\s+than|\blower\s+than|<=?|≤)\s*${AMOUNT}`, 'i'),
+        direction: 'below',
+        barrier: false,
+    },
+];
+
+const RANGE_PATTERN = new RegExp(String.raw`\bbetween\s+${AMOUNT}\s*(?:and|to|-|–)\s*${AMOUNT}`, 'i');
+
+const DATE_RANGE_PATTERN = new RegExp(
+    String.raw`\b(?:between|from)\s+${MONTH}\s+${DAY}${YEAR}\s*(?:and|to|through|-|–)\s*(?:${MONTH}\s+)?${DAY}${YEAR}`,
+    'i'
+);
+const BY_DAY_PATTERN = new RegExp(String.raw`\b(?:by|before)\s+${END_OF}${MONTH}\s+${DAY}${YEAR}`, 'i');
+const ON_DAY_PATTERN = new RegExp(String.raw`\b${MONTH}\s+${DAY}${YEAR}`, 'i');
+const MONTH_PATTERN = new RegExp(String.raw`\b(?:in|by|before|during)\s+${END_OF}${MONTH}(?:\s+(\d{4}))?\b`, 'i');
+const YEAR_PATTERN = new RegExp(String.raw`\b(?:in|by|before|during)\s+${END_OF}(\d{4})\b`, 'i');
+const RELATIVE_PATTERN = /\b(today|tonight|tomorrow|this\s+(?:week|month|year)|next\s+(?:week|month|year))\b/i;
+
+const TIME_PATTERN = /\b(\d{1,2})(?::(\d{2}))?\s*(am|pm)\b/i;
+const TIME_24H_PATTERN = /\bat\s+(\d{1,2}):(\d{2})\b(?!\s*(?:am|pm)\b)/i;
+const NOON_PATTERN = /\bnoon\b/i;
+const TIME_ZONE_PATTERN = new RegExp(String.raw`\b(${Object.keys(TIME_ZONES).join('|')})\b`);
+
+/**
+ * Settlement rule extracted from the question's date phrase
+ */
+interface SettlementPhrase {
+    year: number | null;        // Null if the question omits it
+    month: number;              // 0-based
+    day: number | null;         // Null = last day of the month
+    endOfDay: boolean;          // "by"/"in" deadlines run to the end of the day
+}
+
+/**
+ * Parse a Gamma market question into structured terms
+ *
+ * Handles the threshold shapes Polymarket lists for crypto prices:
+ * "Will the price of Bitcoin be above $110,000 on October 20?",
+ * "ETH above 4,000 on Oct 20?", "... between $4,000 and $4,200 on ...",
+ * and the barrier forms "Will Bitcoin reach $120k in October?" /
+ * "... dip to $100,000 by December 31?". Dates without a time fix at
+ * 12:00 ET ("on") or run to the end of the day, month or year ("by",
+ * "in", "by the end of 2025"); a date range ("between Oct 1 and Oct 31")
+ * runs to the end of its last day. Times may be 12-hour ("4PM ET") or
+ * 24-hour ("at 12:00 ET"). Up/down markets and multi-strike event titles
+ * have no strike and fail with `no_strike`.
+ *
+ * @param now - Reference time for dates that omit the year
+ */
+export function parseMarketTerms(question: string, now: number = Date.now()): MarketTermsResult {
+    const text = question.trim().replace(/[’‘]/g, "'");
+
+    const assets = UNDERLYINGS.filter(u => u.pattern.test(text));
+    if (assets.length === 0) {
+        return { ok: false, reason: 'unknown_underlying', detail: 'No supported asset named' };
+    }
+    if (assets.length > 1) {
+        return {
+            ok: false,
+            reason: 'ambiguous_underlying',
+            detail: `Names several assets: ${assets.map(a => a.asset).join(', ')}`,
+        };
+    }
+    const { asset, symbol } = assets[0];
+
+    // Strike and direction
+    let direction: MarketTermsDirection;
+    let strike: number;
+    let upperStrike: number | undefined;
+    let barrier = false;
+
+    const range = RANGE_PATTERN.exec(text);
+    const single = STRIKE_PATTERNS
+        .map(p => ({ ...p, match: p.pattern.exec(text) }))
+        .find(p => p.match !== null);
+
+    if (range) {
+        direction = 'between';
+        strike = parseAmount(range[1]);
+        upperStrike = parseAmount(range[2]);
+
+        if (!(upperStrike > strike)) {
+            return { ok: false, reason: 'invalid_range', detail: `Range ${range[1]} - ${range[2]} is empty` };
+        }
+    } else if (single) {
+        direction = single.direction;
+        barrier = single.barrier;
+        strike = parseAmount(single.match![1]);
+    } else {
+        const detail = /\bup\s+or\s+down\b/i.test(text)
+            ? 'Up/down market has no fixed strike'
+            : 'No above/below/between price threshold';
+        return { ok: false, reason: 'no_strike', detail };
+    }
+
+    if (!(strike > 0) || !Number.isFinite(strike)) {
+        return { ok: false, reason: 'no_strike', detail: `Unusable strike ${strike}` };
+    }
+
+    // Settlement
+    const relative = RELATIVE_PATTERN.exec(text);
+    if (relative) {
+        return { ok: false, reason: 'no_settlement', detail: `Relative date "${relative[1]}" has no fixed settlement` };
+    }
+
+    const phrase = parseSettlementPhrase(text);
+    if (!phrase) {
+        return { ok: false, reason: 'no_settlement', detail: 'No settlement date' };
+    }
+
+    const zoneMatch = TIME_ZONE_PATTERN.exec(text);
+    const timeZone = zoneMatch ? TIME_ZONES[zoneMatch[1]] : DEFAULT_TIME_ZONE;
+
+    const time = parseTimeOfDay(text);
+    const timeAssumed = time === null;
+    const [hour, minute, second] = time
+        ?? (phrase.endOfDay ? [23, 59, 59] : [DEFAULT_FIXING_HOUR, 0, 0]);
+
+    const settlementFor = (year: number): number | null => {
+        const lastDay = new Date(Date.UTC(year, phrase.month + 1, 0)).getUTCDate();
+        const day = phrase.day ?? lastDay;
+        if (day < 1 || day > lastDay) {
+            return null;
+        }
+        return zonedTimeToEpoch(year, phrase.month, day, hour, minute, second, timeZone);
+    };
+
+    let settlement: number | null;
+    if (phrase.year !== null) {
+        settlement = settlementFor(phrase.year);
+    } else {
+        const year = yearIn(now, timeZone);
+        settlement = settlementFor(year);
+        if (settlement !== null && settlement < now - MAX_PAST_MS) {
+            settlement = settlementFor(year + 1);
+        }
+    }
+
+    if (settlement === null) {
+        return { ok: false, reason: 'no_settlement', detail: 'Settlement date does not exist' };
+    }
+
+    const terms: MarketTerms = {
+        underlying: asset,
+        symbol,
+        direction,
+        strike,
+        barrier,
+        settlement,
+        timeZone,
+        timeAssumed,
+    };
+    if (upperStrike !== undefined) {
+        terms.upperStrike = upperStrike;
+    }
+
+    return { ok: true, terms };
+}
+
+/**
+ * Date phrase, most specific first: "between Oct 1 and Oct 31", "by Dec 31",
+ * "on Oct 20", "in October", "by 2026"
+ */
+function parseSettlementPhrase(text: string): SettlementPhrase | null {
+    // A window settles on its last date
+    const range = DATE_RANGE_PATTERN.exec(text);
+    if (range) {
+        const endYear = range[6] ?? range[3];
+        return {
+            year: endYear ? Number(endYear) : null,
+            month: monthIndex(range[4] ?? range[1]),
+            day: Number(range[5]),
+            endOfDay: true,
+        };
+    }
+
+    const byDay = BY_DAY_PATTERN.exec(text);
+    if (byDay) {
+        return {
+            year: byDay[3] ? Number(byDay[3]) : null,
+            month: monthIndex(byDay[1]),
+            day: Number(byDay[2]),
+            endOfDay: true,
+        };
+    }
+
+    const onDay = ON_DAY_PATTERN.exec(text);
+    if (onDay) {
+        return {
+            year: onDay[3] ? Number(onDay[3]) : null,
+            month: monthIndex(onDay[1]),
+            day: Number(onDay[2]),
+            endOfDay: false,
+        };
+    }
+
+    const month = MONTH_PATTERN.exec(text);
+    if (month) {
+        return {
+            year: month[2] ? Number(month[2]) : null,
+            month: monthIndex(month[1]),
+            day: null,
+            endOfDay: true,
+        };
+    }
+
+    const year = YEAR_PATTERN.exec(text);
+    if (year) {
+        return { year: Number(year[1]), month: 11, day: 31, endOfDay: true };
+    }
+
+    return null;
+}
+
+/**
+ * Explicit time of day as [hour, minute, second], or null
+ */
+function parseTimeOfDay(text: string): [number, number, number] | null {
+    const match = TIME_PATTERN.exec(text);
+    if (match) {
+        const hour12 = Number(match[1]) % 12;
+        const hour = match[3].toLowerCase() === 'pm' ? hour12 + 12 : hour12;
+        return [hour, match[2] ? Number(match[2]) : 0, 0];
+    }
+
+    const match24 = TIME_24H_PATTERN.exec(text);
+    if (match24) {
+        const hour = Number(match24[1]);
+        const minute = Number(match24[2]);
+        if (hour <= 23 && minute <= 59) {
+            return [hour, minute, 0];
+        }
+    }
+
+    return NOON_PATTERN.test(text) ? [12, 0, 0] : null;
+}
+
+/**
+ * "$120k", "4,000", "$1.5m" -> dollars
+ */
+function parseAmount(raw: string): number {
+    const match = /([\d,]+(?:\.\d+)?)\s?(k|m|b|thousand|million|billion)?$/i.exec(raw.trim().replace(/,+$/, ''));
+    if (!match) {
+        return NaN;
+    }
+
+    const value = parseFloat(match[1].replace(/,/g, ''));
+    switch (match[2]?.toLowerCase()) {
+        case 'k':
+        case 'thousand':
+            return value * 1e3;
+        case 'm':
+        case 'million':
+            return value * 1e6;
+        case 'b':
+        case 'billion':
+            return value * 1e9;
+        default:
+            return value;
+    }
+}
+
+/**
+ * 0-based month from a (possibly abbreviated) month name
+ */
+function monthIndex(name: string): number {
+    return ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+        .indexOf(name.slice(0, 3).toLowerCase());
+}
+
+/**
+ * Calendar year at `ts` in a time zone
+ */
+function yearIn(ts: number, timeZone: string): number {
+    return Number(new Intl.DateTimeFormat('en-US', { timeZone, year: 'numeric' }).format(new Date(ts)));
+}
+
+/**
+ * Epoch ms of a wall-clock time in a time zone
+ */
+function zonedTimeToEpoch(
+    year: number,
+    month: number,
+    day: number,
+    hour: number,
+    minute: number,
+    second: number,
+    timeZone: string
+): number {
+    const wallClock = Date.UTC(year, month, day, hour, minute, second);
+
+    // Second pass corrects the offset when the first guess lands across a DST change
+    const guess = wallClock - timeZoneOffsetMs(wallClock, timeZone);
+    return wallClock - timeZoneOffsetMs(guess, timeZone);
+}
+
+/**
+ * Offset of a time zone from UTC at `ts` (positive east of UTC)
+ */
+function timeZoneOffsetMs(ts: number, timeZone: string): number {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit',
+    }).formatToParts(new Date(ts));
+
+    const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)!.value);
+    const asUtc = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+
+    return asUtc - (ts - (((ts % 1000) + 1000) % 1000));
+}
@@ -0,0 +1,366 @@
+import { env } from '../../config/env.js';
+import type { PolyMarketData, PolyOrderbookLevel } from './types.js';
+
+/**
+ * Parsed price level
+ */
+export interface BookLevel {
+    price: number;
+    size: number;           // Shares
+}
+
+/**
+ * Orderbook metrics calculated from CLOB data
+ */
+export interface OrderbookMetrics {
+    tokenId: string;
+    bestBid: number;
+    bestAsk: number;
+    midPrice: number;
+    spreadBps: number;
+    depthTopN: number;
+    bidLevels: number;
+    askLevels: number;
+    valid: boolean;
+    error?: string;
+}
+
+/**
+ * Result of walking the book for a given size
+ */
+export interface FillEstimate {
+    side: 'buy' | 'sell';           // buy walks asks, sell walks bids
+    requestedSize: number;
+    filledSize: number;
+    notional: number;               // USDC paid (buy) or received (sell)
+    vwap: number | null;
+    worstPrice: number | null;
+    levelsConsumed: number;
+    complete: boolean;              // False if the book ran out first
+    slippageBps: number | null;     // VWAP vs best price on that side
+    priceImpactBps: number | null;  // VWAP vs mid, adverse = positive
+}
+
+/**
+ * Resting size within a price band around mid
+ */
+export interface BandDepth {
+    bandBps: number;
+    bidSize: number;
+    askSize: number;
+    bidNotional: number;
+    askNotional: number;
+}
+
+/**
+ * Immutable Polymarket order book with walk-the-book analytics
+ *
+ * Built from raw CLOB levels: unparseable or non-positive levels are
+ * dropped, bids are sorted descending and asks ascending. Sizes are in
+ * shares; notional values are price x size in USDC.
+ */
+export class OrderBook {
+    private constructor(
+        public readonly tokenId: string,
+        public readonly bids: BookLevel[],
+        public readonly asks: BookLevel[]
+    ) {}
+
+    /**
+     * Build from raw CLOB levels
+     */
+    public static fromLevels(
+        tokenId: string,
+        bids: PolyOrderbookLevel[] = [],
+        asks: PolyOrderbookLevel[] = []
+    ): OrderBook {
+        return new OrderBook(
+            tokenId,
+            OrderBook.parseLevels(bids).sort((a, b) => b.price - a.price),
+            OrderBook.parseLevels(asks).sort((a, b) => a.price - b.price)
+        );
+    }
+
+    /**
+     * Book combined with its complementary outcome's book
+     *
+     * A complement ask at p is a bid at 1 - p here (selling this outcome
+     * == buying the other), and a complement bid a 1 - p ask. Levels at
+     * the same price are aggregated.
+     */
+    public withComplement(complement: OrderBook): OrderBook {
+        const implied = (levels: BookLevel[]) => levels.map(l => ({ price: 1 - l.price, size: l.size }));
+
+        return new OrderBook(
+            this.tokenId,
+            OrderBook.mergeLevels(this.bids, implied(complement.asks)).sort((a, b) => b.price - a.price),
+            OrderBook.mergeLevels(this.asks, implied(complement.bids)).sort((a, b) => a.price - b.price)
+        );
+    }
+
+    /**
+     * True if both sides have at least one level
+     */
+    public isValid(): boolean {
+        return this.bids.length > 0 && this.asks.length > 0;
+    }
+
+    /**
+     * Highest bid price
+     */
+    public get bestBid(): number | null {
+        return this.bids[0]?.price ?? null;
+    }
+
+    /**
+     * Lowest ask price
+     */
+    public get bestAsk(): number | null {
+        return this.asks[0]?.price ?? null;
+    }
+
+    /**
+     * Mid of best bid and ask
+     */
+    public get midPrice(): number | null {
+        return this.isValid() ? (this.bids[0].price + this.asks[0].price) / 2 : null;
+    }
+
+    /**
+     * Spread in basis points of mid
+     */
+    public get spreadBps(): number | null {
+        const mid = this.midPrice;
+        return mid !== null ? ((this.asks[0].price - this.bids[0].price) / mid) * 10000 : null;
+    }
+
+    /**
+     * Size-weighted best prices: leans toward the side with less size,
+     * where the next trade is more likely to move the price
+     */
+    public get microPrice(): number | null {
+        if (!this.isValid()) {
+            return null;
+        }
+
+        const bid = this.bids[0];
+        const ask = this.asks[0];
+        return (bid.price * ask.size + ask.price * bid.size) / (bid.size + ask.size);
+    }
+
+    /**
+     * Microprice generalized to the top N levels: each side's VWAP,
+     * weighted by the opposite side's depth
+     */
+    public depthWeightedPrice(levels: number): number | null {
+        if (!this.isValid()) {
+            return null;
+        }
+
+        const bids = this.bids.slice(0, levels);
+        const asks = this.asks.slice(0, levels);
+        const bidSize = this.sumSize(bids);
+        const askSize = this.sumSize(asks);
+        const bidVwap = this.sumNotional(bids) / bidSize;
+        const askVwap = this.sumNotional(asks) / askSize;
+
+        return (bidVwap * askSize + askVwap * bidSize) / (bidSize + askSize);
+    }
+
+    /**
+     * Total shares in the top N levels of both sides
+     */
+    public depthTopN(levels: number): number {
+        return this.sumSize(this.bids.slice(0, levels)) + this.sumSize(this.asks.slice(0, levels));
+    }
+
+    /**
+     * USDC notional resting per side (top N levels, or the whole book)
+     */
+    public notionalDepth(levels?: number): { bid: number; ask: number } {
+        return {
+            bid: this.sumNotional(this.bids.slice(0, levels)),
+            ask: this.sumNotional(this.asks.slice(0, levels)),
+        };
+    }
+
+    /**
+     * Resting size within +/- bandBps of mid
+     */
+    public depthWithinBand(bandBps: number): BandDepth {
+        const mid = this.midPrice;
+        if (mid === null) {
+            return { bandBps, bidSize: 0, askSize: 0, bidNotional: 0, askNotional: 0 };
+        }
+
+        const bidFloor = mid * (1 - bandBps / 10000);
+        const askCeiling = mid * (1 + bandBps / 10000);
+        const bids = this.bids.filter(l => l.price >= bidFloor);
+        const asks = this.asks.filter(l => l.price <= askCeiling);
+
+        return {
+            bandBps,
+            bidSize: this.sumSize(bids),
+            askSize: this.sumSize(asks),
+            bidNotional: this.sumNotional(bids),
+            askNotional: this.sumNotional(asks),
+        };
+    }
+
+    /**
+     * Best-level size imbalance in [-1, 1]; positive = bid heavy
+     */
+    public topOfBookImbalance(): number | null {
+        if (!this.isValid()) {
+            return null;
+        }
+
+        const bidSize = this.bids[0].size;
+        const askSize = this.asks[0].size;
+        return (bidSize - askSize) / (bidSize + askSize);
+    }
+
+    /**
+     * Walk the book to fill `size` shares at market
+     */
+    public vwapToFill(side: 'buy' | 'sell', size: number): FillEstimate {
+        const levels = side === 'buy' ? this.asks : this.bids;
+
+        let remaining = size;
+        let filledSize = 0;
+        let notional = 0;
+        let levelsConsumed = 0;
+        let worstPrice: number | null = null;
+
+        for (const level of levels) {
+            if (remaining <= 0) {
+                break;
+            }
+
+            const take = Math.min(remaining, level.size);
+            filledSize += take;
+            notional += take * level.price;
+            remaining -= take;
+            worstPrice = level.price;
+            levelsConsumed++;
+        }
+
+        const vwap = filledSize > 0 ? notional / filledSize : null;
+        const best = levels[0]?.price ?? null;
+        const mid = this.midPrice;
+
+        // Adverse direction is up for buys, down for sells
+        const sign = side === 'buy' ? 1 : -1;
+
+        return {
+            side,
+            requestedSize: size,
+            filledSize,
+            notional,
+            vwap,
+            worstPrice,
+            levelsConsumed,
+            complete: remaining <= 0,
+            slippageBps: vwap !== null && best !== null ? sign * (vwap / best - 1) * 10000 : null,
+            priceImpactBps: vwap !== null && mid !== null ? sign * (vwap / mid - 1) * 10000 : null,
+        };
+    }
+
+    /**
+     * Price impact vs mid of filling `size` shares, or null if nothing fills
+     */
+    public priceImpactBps(side: 'buy' | 'sell', size: number): number | null {
+        return this.vwapToFill(side, size).priceImpactBps;
+    }
+
+    /**
+     * Summary metrics (best prices, spread, top-N depth)
+     */
+    public metrics(depthLevels: number): OrderbookMetrics {
+        const base = {
+            tokenId: this.tokenId,
+            bidLevels: this.bids.length,
+            askLevels: this.asks.length,
+        };
+
+        if (!this.isValid()) {
+            return {
+                ...base,
+                bestBid: 0,
+                bestAsk: 0,
+                midPrice: 0,
+                spreadBps: 0,
+                depthTopN: 0,
+                valid: false,
+                error: 'No bids or asks available',
+            };
+        }
+
+        return {
+            ...base,
+            bestBid: this.bids[0].price,
+            bestAsk: this.asks[0].price,
+            midPrice: this.midPrice!,
+            spreadBps: this.spreadBps!,
+            depthTopN: this.depthTopN(depthLevels),
+            valid: true,
+        };
+    }
+
+    /**
+     * Parse string levels, dropping unusable ones
+     */
+    private static parseLevels(levels: PolyOrderbookLevel[]): BookLevel[] {
+        return levels
+            .map(level => ({ price: parseFloat(level.price), size: parseFloat(level.size) }))
+            .filter(level => level.price > 0 && level.size > 0);
+    }
+
+    /**
+     * Aggregate levels by price (rounded to absorb 1 - p float error)
+     */
+    private static mergeLevels(...sides: BookLevel[][]): BookLevel[] {
+        const byPrice = new Map<number, number>();
+        for (const level of sides.flat()) {
+            const price = Math.round(level.price * 1e6) / 1e6;
+            byPrice.set(price, (byPrice.get(price) ?? 0) + level.size);
+        }
+
+        return Array.from(byPrice, ([price, size]) => ({ price, size }));
+    }
+
+    /**
+     * Total shares over levels
+     */
+    private sumSize(levels: BookLevel[]): number {
+        return levels.reduce((sum, l) => sum + l.size, 0);
+    }
+
+    /**
+     * Total USDC notional over levels
+     */
+    private sumNotional(levels: BookLevel[]): number {
+        return levels.reduce((sum, l) => sum + l.size * l.price, 0);
+    }
+}
+
+/**
+ * Normalized market data for a valid book
+ */
+export function toMarketData(book: OrderBook, depthLevels: number, tsLocal: number = Date.now()): PolyMarketData {
+    const metrics = book.metrics(depthLevels);
+
+    return {
+        tokenId: book.tokenId,
+        midPrice: metrics.midPrice,
+        bestBid: metrics.bestBid,
+        bestAsk: metrics.bestAsk,
+        spreadBps: metrics.spreadBps,
+        depthTopN: metrics.depthTopN,
+        microPrice: book.microPrice ?? metrics.midPrice,
+        depthWeightedPrice: book.depthWeightedPrice(env.POLY_FAIR_PRICE_LEVELS) ?? metrics.midPrice,
+        imbalance: book.topOfBookImbalance() ?? 0,
+        book,
+        tsLocal,
+    };
+}
@@ -0,0 +1,73 @@
+import { logger } from '../../infra/logger.js';
+import { MarketMetadataService } from './market_metadata.js';
+import type { OutcomePair, WatchedToken } from './types.js';
+
+/**
+ * Resolve the complementary outcome pair of every watched token
+ *
+ * Pairs come from each token's market metadata, matched on the Yes/No
+ * outcome labels. Tokens whose market cannot be resolved, is not binary
+ * or isn't labelled Yes/No are left unpaired.
+ */
+export async function resolveOutcomePairs(
+    watchList: WatchedToken[],
+    metadata: MarketMetadataService = new MarketMetadataService()
+): Promise<OutcomePair[]> {
+    const markets = await metadata.load(watchList.map(t => t.tokenId));
+    const pairs: OutcomePair[] = [];
+
+    for (const market of markets) {
+        if (market.tokens.length !== 2) {
+            logger.warn('poly.pair.unresolved', {
+                conditionId: market.conditionId,
+                outcomes: market.tokens.length,
+            });
+            continue;
+        }
+
+        // Gamma doesn't guarantee outcome order; Up/Down style labels can't be mapped
+        const yes = market.tokens.find(t => t.outcome.trim().toLowerCase() === 'yes');
+        const no = market.tokens.find(t => t.outcome.trim().toLowerCase() === 'no');
+        if (!yes || !no) {
+            logger.warn('poly.pair.unlabeled', {
+                conditionId: market.conditionId,
+                outcomes: market.tokens.map(t => t.outcome),
+            });
+            continue;
+        }
+
+        pairs.push({ conditionId: market.conditionId, yes, no });
+    }
+
+    logger.info('poly.pair.resolved', {
+        tokens: watchList.length,
+        pairs: pairs.map(p => ({
+            conditionId: p.conditionId,
+            [p.yes.outcome]: p.yes.tokenId,
+            [p.no.outcome]: p.no.tokenId,
+        })),
+    });
+
+    return pairs;
+}
+
+/**
+ * Add each pair's complement to the watch-list (inheriting the symbol pin)
+ */
+export function withComplements(watchList: WatchedToken[], pairs: OutcomePair[]): WatchedToken[] {
+    const byToken = new Map(watchList.map(t => [t.tokenId, t]));
+
+    for (const pair of pairs) {
+        const yes = byToken.get(pair.yes.tokenId);
+        const no = byToken.get(pair.no.tokenId);
+        const symbol = yes?.symbol ?? no?.symbol;
+
+        for (const tokenId of [pair.yes.tokenId, pair.no.tokenId]) {
+            if (!byToken.has(tokenId)) {
+                byToken.set(tokenId, symbol ? { tokenId, symbol } : { tokenId });
+            }
+        }
+    }
+
+    return Array.from(byToken.values());
+}
@@ -1,6 +1,21 @@
-import { ClobClient } from '@polymarket/clob-client';
+import { ClobClient, Side } from '@polymarket/clob-client';
 import { logger } from '../../infra/logger.js';
-import type { PolyOrderbook } from './types.js';
+import type { MarketMetadata, PolyOrderbook } from './types.js';
+
+/**
+ * Subset of the CLOB /markets/{conditionId} response
+ */
+interface ClobMarketResponse {
+    question?: string;
+    tokens?: { token_id: string; outcome: string }[];
+    minimum_tick_size?: number | string;
+    minimum_order_size?: number | string;
+    neg_risk?: boolean;
+    end_date_iso?: string | null;
+    active?: boolean;
+    closed?: boolean;
+    accepting_orders?: boolean;
+}
 
 /**
  * Polymarket CLOB Client Wrapper
@@ -51,6 +66,85 @@ export class PolyClient {
         }
     }
 
+    /**
+     * Fetch orderbooks for several tokens in one request
+     * @returns Orderbooks keyed by token ID (missing tokens are absent), or null on error
+     */
+    async getOrderbooks(tokenIds: string[]): Promise<Map<string, PolyOrderbook> | null> {
+        try {
+            // Side is required by the request type but ignored for books
+            const summaries = await this.client.getOrderBooks(
+                tokenIds.map(tokenId => ({ token_id: tokenId, side: Side.BUY }))
+            );
+
+            if (!Array.isArray(summaries)) {
+                logger.warn('poly.orderbooks.invalid_response', {
+                    tokens: tokenIds.length,
+                });
+                return null;
+            }
+
+            const orderbooks = new Map<string, PolyOrderbook>();
+            for (const summary of summaries) {
+                orderbooks.set(summary.asset_id, {
+                    bids: summary.bids || [],
+                    asks: summary.asks || [],
+                    timestamp: summary.timestamp,
+                    market: summary.market,
+                });
+            }
+
+            return orderbooks;
+        } catch (error) {
+            logger.error('poly.orderbooks.error', {
+                tokens: tokenIds.length,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return null;
+        }
+    }
+
+    /**
+     * Fetch market metadata by condition ID
+     */
+    async getMarket(conditionId: string): Promise<MarketMetadata | null> {
+        try {
+            const market = await this.client.getMarket(conditionId) as ClobMarketResponse | null;
+
+            if (!market?.tokens || market.tokens.length === 0) {
+                logger.warn('poly.market.no_tokens', {
+                    conditionId,
+                });
+                return null;
+            }
+
+            const endDate = market.end_date_iso ? Date.parse(market.end_date_iso) : NaN;
+
+            return {
+                conditionId,
+                question: market.question ?? '',
+                tokens: market.tokens.map(token => ({
+                    tokenId: token.token_id,
+                    outcome: token.outcome,
+                })),
+                tickSize: Number(market.minimum_tick_size) || 0.01,
+                minOrderSize: Number(market.minimum_order_size) || 0,
+                negRisk: market.neg_risk === true,
+                endDate: Number.isFinite(endDate) ? endDate : null,
+                active: market.active !== false,
+                closed: market.closed === true,
+                acceptingOrders: market.accepting_orders !== false,
+                fetchedAt: Date.now(),
+            };
+        } catch (error) {
+            logger.error('poly.market.error', {
+                conditionId,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return null;
+        }
+    }
+
     /**
      * Get client instance for advanced operations
      */
@@ -0,0 +1,19 @@
+import { env } from '../../config/env.js';
+import { PolymarketFeed } from './market_feed.js';
+import { PolymarketWsFeed } from './ws_market_feed.js';
+import { loadWatchList } from './watch_list.js';
+import type { PolyFeed, WatchedToken } from './types.js';
+
+/**
+ * Create the Polymarket feed from config
+ *
+ * `ws` streams the CLOB market channel into a local book; `poll`
+ * falls back to fetching the REST orderbook on an interval.
+ */
+export function createPolyFeed(watchList: WatchedToken[] = loadWatchList()): PolyFeed {
+    if (env.POLY_FEED_MODE === 'poll') {
+        return new PolymarketFeed(watchList);
+    }
+
+    return new PolymarketWsFeed(watchList);
+}
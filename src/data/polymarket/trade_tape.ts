@@ -0,0 +1,115 @@
+import { env } from '../../config/env.js';
+import type { PolyTapeStats, PolyTrade } from './types.js';
+
+/**
+ * Per-token rolling window of prints with running sums
+ */
+interface TokenTape {
+    trades: PolyTrade[];
+    head: number;               // Index of the oldest trade inside the window
+    volume: number;
+    notional: number;
+    buyVolume: number;
+    sellVolume: number;
+    last: PolyTrade | null;     // Survives window expiry
+}
+
+/**
+ * Polymarket Trade Tape
+ *
+ * Keeps the prints of the last POLY_TRADE_WINDOW_MS per token so the
+ * strategy can tell whether a book is actively trading (and being
+ * repriced) or sitting idle.
+ */
+export class TradeTape {
+    private tapes = new Map<string, TokenTape>();
+
+    constructor(private readonly windowMs: number = env.POLY_TRADE_WINDOW_MS) {}
+
+    /**
+     * Record a print
+     */
+    public record(trade: PolyTrade): void {
+        if (!this.tapes.has(trade.tokenId)) {
+            this.tapes.set(trade.tokenId, {
+                trades: [],
+                head: 0,
+                volume: 0,
+                notional: 0,
+                buyVolume: 0,
+                sellVolume: 0,
+                last: null,
+            });
+        }
+
+        const tape = this.tapes.get(trade.tokenId)!;
+        tape.trades.push(trade);
+        tape.last = trade;
+        this.apply(tape, trade, 1);
+        this.expire(tape, trade.tsLocal);
+    }
+
+    /**
+     * Window stats for a token (zeros if it never traded)
+     */
+    public getStats(tokenId: string, now: number = Date.now()): PolyTapeStats {
+        const tape = this.tapes.get(tokenId);
+        if (tape) {
+            this.expire(tape, now);
+        }
+
+        const last = tape?.last ?? null;
+
+        return {
+            tokenId,
+            windowMs: this.windowMs,
+            trades: tape ? tape.trades.length - tape.head : 0,
+            volume: tape?.volume ?? 0,
+            notional: tape?.notional ?? 0,
+            buyVolume: tape?.buyVolume ?? 0,
+            sellVolume: tape?.sellVolume ?? 0,
+            lastPrice: last?.price ?? null,
+            lastTradeAt: last?.tsLocal ?? null,
+            timeSinceLastTradeMs: last ? now - last.tsLocal : null,
+        };
+    }
+
+    /**
+     * Advance the head past expired prints, then compact
+     */
+    private expire(tape: TokenTape, now: number): void {
+        const cutoff = now - this.windowMs;
+
+        while (tape.head < tape.trades.length && tape.trades[tape.head].tsLocal < cutoff) {
+            this.apply(tape, tape.trades[tape.head], -1);
+            tape.head++;
+        }
+
+        // Reset accumulated float drift once the window is empty
+        if (tape.head === tape.trades.length) {
+            tape.volume = 0;
+            tape.notional = 0;
+            tape.buyVolume = 0;
+            tape.sellVolume = 0;
+        }
+
+        if (tape.head > 1024 && tape.head * 2 > tape.trades.length) {
+            tape.trades.splice(0, tape.head);
+            tape.head = 0;
+        }
+    }
+
+    /**
+     * Add (sign = 1) or remove (sign = -1) a print from the sums
+     */
+    private apply(tape: TokenTape, trade: PolyTrade, sign: 1 | -1): void {
+        tape.volume += sign * trade.size;
+        tape.notional += sign * trade.size * trade.price;
+
+        if (trade.side === 'buy') {
+            tape.buyVolume += sign * trade.size;
+        } else {
+            tape.sellVolume += sign * trade.size;
+        }
+    }
+}
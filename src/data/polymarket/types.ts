@@ -1,3 +1,5 @@
+import type { OrderBook } from './order_book.js';
+
 /**
  * Polymarket orderbook level
  */
@@ -26,5 +28,238 @@ export interface PolyMarketData {
     bestAsk: number;
     spreadBps: number;      // Spread in basis points
     depthTopN: number;      // Total quantity in top N levels
+    microPrice: number;     // Best prices weighted by opposite best size
+    depthWeightedPrice: number; // Microprice over top POLY_FAIR_PRICE_LEVELS levels
+    imbalance: number;      // Best-level size imbalance, positive = bid heavy
+    book: OrderBook;        // Full book for walk-the-book analytics
     tsLocal: number;        // Local timestamp
 }
+
+/**
+ * Token on the watch-list, optionally pinned to one spot symbol
+ */
+export interface WatchedToken {
+    tokenId: string;
+    symbol?: string;        // Only react to moves of this spot symbol
+}
+
+/**
+ * Outcome token of a CLOB market
+ */
+export interface PolyOutcomeToken {
+    tokenId: string;
+    outcome: string;        // e.g. "Yes", "No", "Up", "Down"
+}
+
+/**
+ * Trading metadata of a CLOB market
+ */
+export interface MarketMetadata {
+    conditionId: string;
+    question: string;
+    tokens: PolyOutcomeToken[];
+    tickSize: number;           // Minimum price increment
+    minOrderSize: number;       // Minimum order size in shares
+    negRisk: boolean;           // Part of a neg-risk (multi-outcome) event
+    endDate: number | null;     // Scheduled end/resolution time (ms), if known
+    active: boolean;
+    closed: boolean;
+    acceptingOrders: boolean;
+    fetchedAt: number;
+}
+
+/**
+ * Why a market must not be traded right now
+ */
+export type TradeBlockReason = 'market_closed' | 'past_end_date' | 'resolution_blackout';
+
+/**
+ * Events emitted by the market metadata service
+ */
+export type MarketMetadataEvents = {
+    metadata: [MarketMetadata];
+};
+
+/**
+ * The two complementary outcome tokens of a binary market
+ */
+export interface OutcomePair {
+    conditionId: string;
+    yes: PolyOutcomeToken;  // First outcome
+    no: PolyOutcomeToken;   // Second outcome
+}
+
+/**
+ * Quote for one outcome consolidated with its complement's book
+ *
+ * Buying YES at p is equivalent to selling NO at 1 - p, so the
+ * effective bid is max(YES bid, 1 - NO ask) and the effective ask is
+ * min(YES ask, 1 - NO bid).
+ */
+export interface ConsolidatedQuote {
+    tokenId: string;
+    complementTokenId: string | null;
+    outcome: string | null;
+    bestBid: number;                    // Direct book
+    bestAsk: number;
+    effectiveBid: number;
+    effectiveAsk: number;
+    effectiveMid: number;
+    effectiveSpreadBps: number;
+    microPrice: number;                 // Over the direct + complement-implied book
+    depthWeightedPrice: number;
+    bidSource: 'direct' | 'complement';
+    askSource: 'direct' | 'complement';
+    depthTopN: number;
+    tsLocal: number;
+}
+
+/**
+ * YES + NO price sums deviating from 1
+ */
+export interface ParityDeviation {
+    conditionId: string;
+    yesTokenId: string;
+    noTokenId: string;
+    midSum: number;
+    bidSum: number;         // > 1: selling both locks in a profit
+    askSum: number;         // < 1: buying both locks in a profit
+    deviation: number;      // Largest deviation from 1 across the sums
+    threshold: number;
+    tsLocal: number;
+}
+
+/**
+ * Events emitted by the complementary book consolidator
+ */
+export type ComplementBookEvents = {
+    quote: [ConsolidatedQuote];
+    parity: [ParityDeviation];
+};
+
+/**
+ * Polymarket print
+ */
+export interface PolyTrade {
+    tokenId: string;
+    market: string;
+    price: number;
+    size: number;           // Shares
+    side: 'buy' | 'sell';   // Taker side
+    tsExchange: number;
+    tsLocal: number;
+}
+
+/**
+ * Rolling trade tape stats for one token
+ */
+export interface PolyTapeStats {
+    tokenId: string;
+    windowMs: number;
+    trades: number;
+    volume: number;                 // Shares traded in the window
+    notional: number;               // USDC traded in the window
+    buyVolume: number;
+    sellVolume: number;
+    lastPrice: number | null;
+    lastTradeAt: number | null;     // Local time of the latest print
+    timeSinceLastTradeMs: number | null;
+}
+
+/**
+ * Events emitted by Polymarket feeds
+ */
+export type PolyFeedEvents = {
+    snapshot: [PolyMarketData];
+    trade: [PolyTrade];
+};
+
+/**
+ * Common surface of the polling and streaming Polymarket feeds
+ */
+export interface PolyFeed {
+    start(): void;
+    stop(): void;
+    on<K extends keyof PolyFeedEvents & string>(event: K, listener: (...args: PolyFeedEvents[K]) => void): this;
+    off<K extends keyof PolyFeedEvents & string>(event: K, listener: (...args: PolyFeedEvents[K]) => void): this;
+    removeAllListeners(): this;
+    // Bring tokens' snapshots up to date (re-emits `snapshot`); a streaming
+    // feed only re-stamps books confirmed within maxAgeMs, if given
+    refresh?(tokenIds: string[], maxAgeMs?: number): Promise<void>;
+    // Polling feed only: poll faster for a while
+    burst?(tokenIds: string[], durationMs?: number): void;
+}
+
+/**
+ * CLOB market channel: full book for one asset
+ * (sent on subscribe and after trades that reshape the book)
+ */
+export interface PolyWsBookMessage {
+    event_type: 'book';
+    asset_id: string;
+    market: string;
+    bids: PolyOrderbookLevel[];
+    asks: PolyOrderbookLevel[];
+    timestamp: string;
+    hash: string;
+}
+
+/**
+ * Single level change; size "0" removes the level
+ */
+export interface PolyWsPriceChange {
+    asset_id?: string;          // Batched format only
+    price: string;
+    size: string;
+    side: 'BUY' | 'SELL';
+    hash?: string;              // Book hash after this change (batched format)
+    best_bid?: string;
+    best_ask?: string;
+}
+
+/**
+ * CLOB market channel: level deltas
+ *
+ * Older messages carry one asset with `changes` and a top-level hash;
+ * the batched format carries `price_changes` across assets.
+ */
+export interface PolyWsPriceChangeMessage {
+    event_type: 'price_change';
+    market: string;
+    asset_id?: string;
+    changes?: PolyWsPriceChange[];
+    price_changes?: PolyWsPriceChange[];
+    hash?: string;
+    timestamp: string;
+}
+
+/**
+ * CLOB market channel: a trade printed
+ */
+export interface PolyWsLastTradeMessage {
+    event_type: 'last_trade_price';
+    asset_id: string;
+    market: string;
+    price: string;
+    size: string;
+    side: 'BUY' | 'SELL';
+    timestamp: string;
+}
+
+/**
+ * Market channel messages the feed does not act on
+ */
+export interface PolyWsOtherMessage {
+    event_type: 'tick_size_change';
+    asset_id: string;
+    market: string;
+}
+
+/**
+ * Market channel message
+ */
+export type PolyWsMessage =
+    | PolyWsBookMessage
+    | PolyWsPriceChangeMessage
+    | PolyWsLastTradeMessage
+    | PolyWsOtherMessage;
@@ -0,0 +1,63 @@
+import { readFileSync } from 'fs';
+import { env } from '../../config/env.js';
+import type { WatchedToken } from './types.js';
+
+/**
+ * Load the token watch-list from config
+ *
+ * Merges POLYMARKET_TOKEN_ID, POLYMARKET_TOKEN_IDS and POLYMARKET_TOKEN_FILE;
+ * duplicates keep the first entry that pins a symbol.
+ */
+export function loadWatchList(): WatchedToken[] {
+    const entries: WatchedToken[] = [
+        ...[env.POLYMARKET_TOKEN_ID, ...env.POLYMARKET_TOKEN_IDS]
+            .filter(tokenId => tokenId.length > 0)
+            .map(tokenId => ({ tokenId })),
+        ...(env.POLYMARKET_TOKEN_FILE ? readWatchListFile(env.POLYMARKET_TOKEN_FILE) : []),
+    ];
+
+    const byToken = new Map<string, WatchedToken>();
+    for (const entry of entries) {
+        const existing = byToken.get(entry.tokenId);
+        if (!existing || (!existing.symbol && entry.symbol)) {
+            byToken.set(entry.tokenId, entry);
+        }
+    }
+
+    if (byToken.size === 0) {
+        throw new Error('Watch-list is empty: set POLYMARKET_TOKEN_ID, POLYMARKET_TOKEN_IDS or POLYMARKET_TOKEN_FILE');
+    }
+
+    return Array.from(byToken.values());
+}
+
+/**
+ * Parse a watch-list file
+ *
+ * JSON: array of token IDs or {tokenId, symbol?} objects.
+ * Text: one `tokenId [SYMBOL]` per line, `#` starts a comment.
+ */
+export function readWatchListFile(path: string): WatchedToken[] {
+    let content: string;
+    try {
+        content = readFileSync(path, 'utf-8');
+    } catch (error) {
+        throw new Error(`Cannot read watch-list file ${path}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (content.trimStart().startsWith('[')) {
+        const parsed = JSON.parse(content) as (string | WatchedToken)[];
+        return parsed.map(entry => typeof entry === 'string'
+            ? { tokenId: entry }
+            : { tokenId: entry.tokenId, symbol: entry.symbol?.toUpperCase() });
+    }
+
+    return content
+        .split('\n')
+        .map(line => line.replace(/#.*$/, '').trim())
+        .filter(line => line.length > 0)
+        .map(line => {
+            const [tokenId, symbol] = line.split(/\s+/);
+            return symbol ? { tokenId, symbol: symbol.toUpperCase() } : { tokenId };
+        });
+}
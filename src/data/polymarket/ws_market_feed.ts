@@ -0,0 +1,495 @@
+import { logger } from '../../infra/logger.js';
+import { env } from '../../config/env.js';
+import { TypedEventEmitter } from '../../infra/typed_emitter.js';
+import { PolyClient } from './poly_client.js';
+import { LocalOrderbook } from './local_book.js';
+import { OrderBook, toMarketData } from './order_book.js';
+import { loadWatchList } from './watch_list.js';
+import type {
+    PolyFeed,
+    PolyFeedEvents,
+    PolyTrade,
+    PolyWsBookMessage,
+    PolyWsLastTradeMessage,
+    PolyWsMessage,
+    PolyWsPriceChange,
+    PolyWsPriceChangeMessage,
+    WatchedToken,
+} from './types.js';
+
+/**
+ * Polymarket CLOB Market Channel Feed
+ *
+ * Subscribes to the market channel, applies `book` snapshots and
+ * `price_change` deltas to a local book per asset, and emits `snapshot`
+ * after every change, plus `trade` for every print.
+ *
+ * Desyncs are detected by comparing the local book against the hash and
+ * best bid/ask carried by each change. Hash comparison is only trusted
+ * once a `book` message's hash has been reproduced locally; on desync the
+ * asset is resynced from a REST snapshot (deltas are dropped meanwhile).
+ *
+ * Books only change when the market does, so refresh() re-emits the
+ * current books with a fresh timestamp while the socket is live. A quiet
+ * book is then not mistaken for a stale one. Callers can bound how long
+ * ago the book itself must have been confirmed (a `book` snapshot, a
+ * consistent `price_change` or a REST resync) so a book whose updates
+ * stopped still ages out.
+ */
+export class PolymarketWsFeed extends TypedEventEmitter<PolyFeedEvents> implements PolyFeed {
+    private ws: WebSocket | null = null;
+    private client: PolyClient;
+    private isRunning = false;
+    private reconnectAttempt = 0;
+    private reconnectTimer: NodeJS.Timeout | null = null;
+    private pingTimer: NodeJS.Timeout | null = null;
+    private lastMessageAt = 0;
+
+    // asset id -> local book
+    private books = new Map<string, LocalOrderbook>();
+
+    // Assets whose exchange hash was reproduced from a `book` message
+    private hashVerified = new Set<string>();
+
+    // Assets awaiting a REST snapshot
+    private resyncing = new Set<string>();
+
+    // asset id -> last time the book was confirmed against the exchange
+    private confirmedAt = new Map<string, number>();
+
+    private readonly tokenIds: string[];
+
+    constructor(watchList: WatchedToken[] = loadWatchList()) {
+        super();
+        this.tokenIds = watchList.map(t => t.tokenId);
+        this.client = new PolyClient();
+    }
+
+    /**
+     * Start the market data feed
+     */
+    public start(): void {
+        if (this.isRunning) {
+            logger.warn('poly.feed.already_running', {
+                tokenIds: this.tokenIds,
+            });
+            return;
+        }
+
+        this.isRunning = true;
+
+        logger.info('poly.feed.started', {
+            mode: 'ws',
+            tokenIds: this.tokenIds,
+            url: env.POLY_WS_URL,
+            depthLevels: env.POLY_DEPTH_LEVELS,
+        });
+
+        this.connect();
+        this.startPingTimer();
+    }
+
+    /**
+     * Stop the market data feed
+     */
+    public stop(): void {
+        this.isRunning = false;
+
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = null;
+        }
+
+        if (this.pingTimer) {
+            clearInterval(this.pingTimer);
+            this.pingTimer = null;
+        }
+
+        if (this.ws) {
+            this.ws.close();
+            this.ws = null;
+        }
+
+        logger.info('poly.feed.stopped', {
+            tokenIds: this.tokenIds,
+        });
+    }
+
+    /**
+     * Open the socket and subscribe to all assets
+     */
+    private connect(): void {
+        if (!this.isRunning) {
+            return;
+        }
+
+        try {
+            const ws = new WebSocket(env.POLY_WS_URL);
+            this.ws = ws;
+
+            ws.onopen = () => {
+                this.reconnectAttempt = 0;
+                this.lastMessageAt = Date.now();
+
+                logger.info('poly.ws.connected', {
+                    tokenIds: this.tokenIds,
+                });
+
+                // Server answers with a `book` per asset
+                ws.send(JSON.stringify({
+                    type: 'market',
+                    assets_ids: this.tokenIds,
+                }));
+            };
+
+            ws.onmessage = (event) => {
+                if (ws !== this.ws) {
+                    return;
+                }
+
+                this.lastMessageAt = Date.now();
+                this.handleMessage(String(event.data));
+            };
+
+            ws.onerror = (error) => {
+                logger.error('poly.ws.error', {
+                    error: String(error),
+                });
+            };
+
+            ws.onclose = () => {
+                if (ws !== this.ws) {
+                    return;
+                }
+
+                this.ws = null;
+                this.hashVerified.clear();
+                this.resyncing.clear();
+                this.confirmedAt.clear();
+
+                if (!this.isRunning) {
+                    return;
+                }
+
+                logger.warn('poly.ws.disconnected', {
+                    reconnectAttempt: this.reconnectAttempt,
+                });
+
+                this.scheduleReconnect();
+            };
+        } catch (error) {
+            logger.error('poly.ws.connection_failed', {
+                error: error instanceof Error ? error.message : String(error),
+            });
+            this.scheduleReconnect();
+        }
+    }
+
+    /**
+     * Reconnect with backoff
+     */
+    private scheduleReconnect(): void {
+        // Backoff: 1s, 2s, 5s, 10s, 30s (max)
+        const delays = [1000, 2000, 5000, 10000, 30000];
+        const delay = delays[Math.min(this.reconnectAttempt, delays.length - 1)];
+
+        logger.info('poly.ws.reconnecting', {
+            attempt: this.reconnectAttempt + 1,
+            delayMs: delay,
+        });
+
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = null;
+            this.reconnectAttempt++;
+            this.connect();
+        }, delay);
+    }
+
+    /**
+     * Re-emit live books so their snapshots carry the current time
+     *
+     * Nothing is emitted while disconnected, silent or resyncing, nor for
+     * books not confirmed within `maxAgeMs` (if given), so consumers see
+     * those books age.
+     */
+    public refresh(tokenIds: string[], maxAgeMs?: number): Promise<void> {
+        const now = Date.now();
+        const live = this.ws?.readyState === WebSocket.OPEN &&
+            now - this.lastMessageAt <= env.POLY_WS_STALE_MS;
+
+        if (live) {
+            for (const tokenId of tokenIds) {
+                const confirmedAt = this.confirmedAt.get(tokenId);
+                if (
+                    !this.resyncing.has(tokenId) &&
+                    (maxAgeMs === undefined || (confirmedAt !== undefined && now - confirmedAt <= maxAgeMs))
+                ) {
+                    this.publish(tokenId);
+                }
+            }
+        }
+
+        return Promise.resolve();
+    }
+
+    /**
+     * Keepalive ping; also drops a socket that has gone silent
+     */
+    private startPingTimer(): void {
+        this.pingTimer = setInterval(() => {
+            const ws = this.ws;
+            if (!ws || ws.readyState !== WebSocket.OPEN) {
+                return;
+            }
+
+            const silentMs = Date.now() - this.lastMessageAt;
+            if (silentMs > env.POLY_WS_STALE_MS) {
+                logger.warn('poly.ws.stale', {
+                    silentMs,
+                });
+                ws.close();
+                return;
+            }
+
+            ws.send('PING');
+        }, env.POLY_WS_PING_MS);
+    }
+
+    /**
+     * Parse and dispatch a market channel frame
+     */
+    private handleMessage(raw: string): void {
+        if (raw === 'PONG') {
+            return;
+        }
+
+        let parsed: PolyWsMessage | PolyWsMessage[];
+        try {
+            parsed = JSON.parse(raw) as PolyWsMessage | PolyWsMessage[];
+        } catch {
+            logger.warn('poly.ws.unparsed', {
+                message: raw.slice(0, 200),
+            });
+            return;
+        }
+
+        for (const message of Array.isArray(parsed) ? parsed : [parsed]) {
+            if (message.event_type === 'book') {
+                this.handleBook(message);
+            } else if (message.event_type === 'price_change') {
+                this.handlePriceChange(message);
+            } else if (message.event_type === 'last_trade_price') {
+                this.handleTrade(message);
+            }
+        }
+    }
+
+    /**
+     * Replace the local book with a full snapshot
+     */
+    private handleBook(message: PolyWsBookMessage): void {
+        const book = new LocalOrderbook(message.asset_id, message.market);
+        book.applySnapshot(message.bids, message.asks);
+        this.books.set(message.asset_id, book);
+        this.resyncing.delete(message.asset_id);
+        this.confirmedAt.set(message.asset_id, Date.now());
+
+        // Only trust hash checks if our serialization reproduces the exchange's
+        const verified = book.hash(message.timestamp) === message.hash;
+        if (verified) {
+            this.hashVerified.add(message.asset_id);
+        } else {
+            this.hashVerified.delete(message.asset_id);
+            logger.debug('poly.ws.hash_unverified', {
+                tokenId: message.asset_id,
+            });
+        }
+
+        this.publish(message.asset_id);
+    }
+
+    /**
+     * Apply level deltas, then check each touched asset for desync
+     */
+    private handlePriceChange(message: PolyWsPriceChangeMessage): void {
+        // Group by asset: batched messages span assets, older ones carry one
+        const byAsset = new Map<string, PolyWsPriceChange[]>();
+        for (const change of message.price_changes ?? message.changes ?? []) {
+            const assetId = change.asset_id ?? message.asset_id;
+            if (!assetId) {
+                continue;
+            }
+            if (!byAsset.has(assetId)) {
+                byAsset.set(assetId, []);
+            }
+            byAsset.get(assetId)!.push(change);
+        }
+
+        for (const [assetId, changes] of byAsset.entries()) {
+            const book = this.books.get(assetId);
+
+            // No base book yet, or a REST snapshot is pending
+            if (!book || this.resyncing.has(assetId)) {
+                continue;
+            }
+
+            for (const change of changes) {
+                book.applyChange(change.side, change.price, change.size);
+            }
+
+            const last = changes[changes.length - 1];
+            const desync = this.findDesync(book, last, last.hash ?? message.hash, message.timestamp);
+
+            if (desync) {
+                void this.resync(assetId, desync);
+                continue;
+            }
+
+            this.confirmedAt.set(assetId, Date.now());
+            this.publish(assetId);
+        }
+    }
+
+    /**
+     * Normalize and emit a print
+     */
+    private handleTrade(message: PolyWsLastTradeMessage): void {
+        const price = parseFloat(message.price);
+        const size = parseFloat(message.size);
+
+        if (!(price > 0) || !(size > 0)) {
+            return;
+        }
+
+        const tsLocal = Date.now();
+        const tsExchange = parseInt(message.timestamp, 10);
+
+        const trade: PolyTrade = {
+            tokenId: message.asset_id,
+            market: message.market,
+            price,
+            size,
+            side: message.side === 'BUY' ? 'buy' : 'sell',
+            tsExchange: Number.isFinite(tsExchange) ? tsExchange : tsLocal,
+            tsLocal,
+        };
+
+        logger.info('poly.trade', {
+            tokenId: trade.tokenId,
+            price: trade.price,
+            size: trade.size,
+            side: trade.side,
+            lagMs: tsLocal - trade.tsExchange,
+        });
+
+        this.emit('trade', trade);
+    }
+
+    /**
+     * Reason the local book disagrees with the exchange, or null
+     */
+    private findDesync(
+        book: LocalOrderbook,
+        change: PolyWsPriceChange,
+        hash: string | undefined,
+        timestamp: string
+    ): string | null {
+        // Empty sides are reported inconsistently; only compare populated tops
+        const bestBid = book.bestBid();
+        const expectedBid = parseFloat(change.best_bid ?? '');
+        if (bestBid !== null && expectedBid > 0 && bestBid !== expectedBid) {
+            return `best bid ${bestBid} != ${expectedBid}`;
+        }
+
+        const bestAsk = book.bestAsk();
+        const expectedAsk = parseFloat(change.best_ask ?? '');
+        if (bestAsk !== null && expectedAsk > 0 && bestAsk !== expectedAsk) {
+            return `best ask ${bestAsk} != ${expectedAsk}`;
+        }
+
+        if (hash && this.hashVerified.has(book.assetId) && book.hash(timestamp) !== hash) {
+            return 'hash mismatch';
+        }
+
+        return null;
+    }
+
+    /**
+     * Rebuild an asset's book from a REST snapshot
+     */
+    private async resync(assetId: string, reason: string): Promise<void> {
+        if (this.resyncing.has(assetId)) {
+            return;
+        }
+
+        this.resyncing.add(assetId);
+
+        logger.warn('poly.ws.desync', {
+            tokenId: assetId,
+            reason,
+        });
+
+        const orderbook = await this.client.getOrderbook(assetId);
+
+        // A fresh `book` message may have landed while we waited
+        if (!this.resyncing.has(assetId)) {
+            return;
+        }
+
+        if (!orderbook) {
+            // Resubscribing makes the server resend every book
+            logger.error('poly.ws.resync_failed', {
+                tokenId: assetId,
+            });
+            this.ws?.close();
+            return;
+        }
+
+        const book = new LocalOrderbook(assetId, orderbook.market ?? this.books.get(assetId)?.market);
+        book.applySnapshot(orderbook.bids, orderbook.asks);
+        this.books.set(assetId, book);
+        this.resyncing.delete(assetId);
+        this.confirmedAt.set(assetId, Date.now());
+
+        logger.info('poly.ws.resynced', {
+            tokenId: assetId,
+            ...book.size(),
+        });
+
+        this.publish(assetId);
+    }
+
+    /**
+     * Emit normalized market data for an asset's current book
+     */
+    private publish(assetId: string): void {
+        const book = this.books.get(assetId);
+        if (!book) {
+            return;
+        }
+
+        const orderbook = book.toOrderbook();
+        const orderBook = OrderBook.fromLevels(assetId, orderbook.bids, orderbook.asks);
+
+        if (!orderBook.isValid()) {
+            logger.debug('poly.orderbook.invalid', {
+                tokenId: assetId,
+                ...book.size(),
+            });
+            return;
+        }
+
+        const marketData = toMarketData(orderBook, env.POLY_DEPTH_LEVELS);
+
+        logger.debug('poly.ws.update', {
+            tokenId: assetId,
+            midPrice: marketData.midPrice.toFixed(4),
+            bestBid: marketData.bestBid.toFixed(4),
+            bestAsk: marketData.bestAsk.toFixed(4),
+            spreadBps: marketData.spreadBps.toFixed(2),
+            depthTopN: marketData.depthTopN.toFixed(2),
+        });
+
+        this.emit('snapshot', marketData);
+    }
+}
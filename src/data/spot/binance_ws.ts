@@ -1,288 +1,445 @@
 import { logger } from '../../infra/logger.js';
 import { env } from '../../config/env.js';
-import type { SpotTick, BinanceStreamMessage, PriceReturn } from './types.js';
+import { WsSpotFeed } from './ws_spot_feed.js';
+import { parseSymbolList } from './symbols.js';
+import type {
+    SpotTick,
+    SpotQuote,
+    BinanceControlResponse,
+    BinanceStreamMessage,
+    BinanceTradeEvent,
+    BinanceBookTickerEvent,
+    BinanceDepthEvent,
+    SpotFeedOptions,
+} from './types.js';
+
+/**
+ * Binance stream kinds supported by the feed
+ */
+export type BinanceStreamKind = 'trade' | 'bookTicker' | 'depth';
+
+/**
+ * Live subscription control methods
+ */
+type ControlMethod = 'SUBSCRIBE' | 'UNSUBSCRIBE';
+
+/**
+ * Control request awaiting an ack
+ */
+interface PendingControl {
+    method: ControlMethod;
+    symbol: string;
+    ws: WebSocket;
+    timer: NodeJS.Timeout;
+    resolve: () => void;
+    reject: (error: Error) => void;
+}
 
 /**
  * Binance Spot WebSocket Client
+ *
+ * Emits `tick` for every trade, `quote` for bookTicker/partial depth
+ * updates, and `move` when the return of the configured price series
+ * (trade, mid or microprice) crosses the move threshold.
+ *
+ * Symbols can be added or removed on the live connection with
+ * subscribe()/unsubscribe(); each control message carries a request id
+ * and resolves on Binance's ack. The combined-stream URL is rebuilt from
+ * the current symbols on every (re)connect, and a freshly opened socket
+ * reconciles any changes made while it was connecting. When a replacement
+ * socket takes over, requests still awaiting an ack move to it and it is
+ * reconciled again with the current symbols.
  */
-export class BinanceSpotFeed {
-    private ws: WebSocket | null = null;
-    private reconnectAttempt = 0;
-    private reconnectTimer: NodeJS.Timeout | null = null;
-    private snapshotTimer: NodeJS.Timeout | null = null;
-    private isShuttingDown = false;
+export class BinanceSpotFeed extends WsSpotFeed {
+    public readonly venue = 'binance' as const;
+
+    private readonly streamKinds: BinanceStreamKind[];
 
-    // Price buffer for return calculation (symbol -> array of ticks)
-    private priceBuffer = new Map<string, SpotTick[]>();
+    // Control request id -> pending ack
+    private nextRequestId = 1;
+    private pendingControls = new Map<number, PendingControl>();
 
-    // Latest price per symbol
-    private latestPrice = new Map<string, number>();
+    // Socket -> symbols it streams (URL streams plus acked controls)
+    private socketSymbols = new Map<WebSocket, Set<string>>();
 
-    // Last sample time per symbol for downsampling
-    private lastSampleTime = new Map<string, number>();
+    constructor(symbols: string[] = parseSymbolList(env.SPOT_SYMBOLS), options: SpotFeedOptions = {}) {
+        super(symbols, options);
 
-    private readonly symbols: string[];
-    private readonly wsUrl: string;
-    private readonly textDecoder = new TextDecoder();
+        this.streamKinds = [...env.BINANCE_STREAMS];
 
-    constructor() {
-        this.symbols = env.SPOT_SYMBOLS.split(',').map(s => s.trim());
+        // Quote-driven moves need a book stream
+        if (this.priceSource !== 'trade' &&
+            !this.streamKinds.includes('bookTicker') &&
+            !this.streamKinds.includes('depth')) {
+            logger.warn('spot.ws.stream_added', {
+                venue: this.venue,
+                stream: 'bookTicker',
+                reason: `SPOT_PRICE_SOURCE=${this.priceSource} requires a book stream`,
+            });
+            this.streamKinds.push('bookTicker');
+        }
+    }
 
-        // Build WebSocket URL for combined streams
+    /**
+     * Combined-stream URL for the current symbols
+     */
+    protected getUrl(): string {
         const streams = this.symbols
-            .map(sym => `${sym.toLowerCase()}@trade`)
+            .flatMap(sym => this.streamNames(sym))
             .join('/');
-        this.wsUrl = `${env.BINANCE_WS_BASE}/stream?streams=${streams}`;
+        return `${env.BINANCE_WS_BASE}/stream?streams=${streams}`;
     }
 
     /**
-     * Start the WebSocket connection
+     * Trade ids are contiguous per symbol
      */
-    public start(): void {
-        this.connect();
-        this.startSnapshotTimer();
+    protected hasContiguousTradeIds(): boolean {
+        return true;
     }
 
     /**
-     * Stop the WebSocket connection and cleanup
+     * Binance drops every connection at 24h; rotate before that
      */
-    public stop(): void {
-        this.isShuttingDown = true;
+    protected getMaxConnectionAgeMs(): number | null {
+        return env.BINANCE_WS_MAX_AGE_MS;
+    }
 
-        if (this.reconnectTimer) {
-            clearTimeout(this.reconnectTimer);
-            this.reconnectTimer = null;
+    /**
+     * Subscribe a symbol on the live connection
+     */
+    public subscribe(symbol: string): Promise<void> {
+        const normalized = symbol.trim().toUpperCase();
+
+        if (this.symbols.includes(normalized)) {
+            return Promise.resolve();
         }
 
-        if (this.snapshotTimer) {
-            clearInterval(this.snapshotTimer);
-            this.snapshotTimer = null;
+        // Not connected: the next (re)connect picks it up via URL or reconcile
+        if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+            this.addSymbol(normalized);
+            return Promise.resolve();
+        }
+
+        return this.sendControl('SUBSCRIBE', normalized, this.ws)
+            .then(() => this.addSymbol(normalized));
+    }
+
+    /**
+     * Unsubscribe a symbol on the live connection
+     */
+    public unsubscribe(symbol: string): Promise<void> {
+        const normalized = symbol.trim().toUpperCase();
+
+        if (!this.symbols.includes(normalized)) {
+            return Promise.resolve();
         }
 
-        if (this.ws) {
-            this.ws.close();
-            this.ws = null;
+        if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+            this.removeSymbol(normalized);
+            return Promise.resolve();
         }
+
+        return this.sendControl('UNSUBSCRIBE', normalized, this.ws)
+            .then(() => this.removeSymbol(normalized));
     }
 
     /**
-     * Connect to Binance WebSocket
+     * Reconcile the socket's URL streams with symbols changed while connecting
      */
-    private connect(): void {
-        try {
-            this.ws = new WebSocket(this.wsUrl);
-
-            this.ws.onopen = () => {
-                this.reconnectAttempt = 0;
-                logger.info('spot.ws.connected', {
-                    symbols: this.symbols,
-                    url: this.wsUrl,
-                });
-            };
-
-            this.ws.onmessage = (event) => {
-                this.handleMessage(event.data);
-            };
-
-            this.ws.onerror = (error) => {
-                logger.error('spot.ws.error', {
-                    error: String(error),
-                });
-            };
-
-            this.ws.onclose = () => {
-                logger.warn('spot.ws.disconnected', {
-                    reconnectAttempt: this.reconnectAttempt,
-                });
-
-                if (!this.isShuttingDown) {
-                    this.scheduleReconnect();
-                }
-            };
-        } catch (error) {
-            logger.error('spot.ws.connection_failed', {
-                error: error instanceof Error ? error.message : String(error),
-            });
+    protected onOpen(ws: WebSocket): void {
+        const urlStreams = new URL(ws.url).searchParams.get('streams')?.split('/') ?? [];
+        this.socketSymbols.set(ws, new Set(
+            urlStreams.filter(s => s.length > 0).map(s => s.split('@')[0].toUpperCase())
+        ));
+
+        this.reconcile(ws);
+    }
 
-            if (!this.isShuttingDown) {
-                this.scheduleReconnect();
+    /**
+     * Move unacked requests to the new socket and bring it up to date
+     */
+    protected onHandover(ws: WebSocket): void {
+        for (const [id, pending] of Array.from(this.pendingControls.entries())) {
+            if (pending.ws === ws) {
+                continue;
             }
+
+            clearTimeout(pending.timer);
+            this.pendingControls.delete(id);
+            this.sendControl(pending.method, pending.symbol, ws).then(pending.resolve, pending.reject);
         }
+
+        this.reconcile(ws);
     }
 
     /**
-     * Schedule reconnection with exponential backoff
+     * Fail requests sent on a socket that closed before acking
      */
-    private scheduleReconnect(): void {
-        // Backoff: 1s, 2s, 5s, 10s, 30s (max)
-        const delays = [1000, 2000, 5000, 10000, 30000];
-        const delay = delays[Math.min(this.reconnectAttempt, delays.length - 1)];
-
-        logger.info('spot.ws.reconnecting', {
-            attempt: this.reconnectAttempt + 1,
-            delayMs: delay,
-        });
+    protected onClose(ws: WebSocket): void {
+        this.socketSymbols.delete(ws);
 
-        this.reconnectTimer = setTimeout(() => {
-            this.reconnectAttempt++;
-            this.connect();
-        }, delay);
+        for (const [id, pending] of this.pendingControls.entries()) {
+            if (pending.ws === ws) {
+                this.settleControl(id, new Error('Connection closed before ack'));
+            }
+        }
     }
 
     /**
-     * Handle incoming WebSocket message with robust parsing
+     * Subscribe / unsubscribe a socket so it streams exactly the current
+     * symbols (skipping symbols with a request already in flight on it)
      */
-    private handleMessage(data: string | ArrayBuffer | Blob): void {
-        try {
-            // Convert data to string if needed
-            let messageStr: string;
-
-            if (typeof data === 'string') {
-                messageStr = data;
-            } else if (data instanceof ArrayBuffer) {
-                messageStr = this.textDecoder.decode(data);
-            } else if (data instanceof Uint8Array) {
-                messageStr = this.textDecoder.decode(data);
-            } else {
-                logger.error('spot.ws.unsupported_data_type', {
-                    type: typeof data,
-                });
-                return;
-            }
+    private reconcile(ws: WebSocket): void {
+        const streamed = this.socketSymbols.get(ws) ?? new Set<string>();
+        const inFlight = new Set(
+            Array.from(this.pendingControls.values())
+                .filter(pending => pending.ws === ws)
+                .map(pending => pending.symbol)
+        );
+
+        for (const symbol of this.symbols.filter(s => !streamed.has(s) && !inFlight.has(s))) {
+            this.sendControl('SUBSCRIBE', symbol, ws).catch(() => undefined);
+        }
 
-            const message = JSON.parse(messageStr) as BinanceStreamMessage;
+        for (const symbol of Array.from(streamed).filter(s => !this.symbols.includes(s) && !inFlight.has(s))) {
+            this.sendControl('UNSUBSCRIBE', symbol, ws).catch(() => undefined);
+        }
+    }
+
+    /**
+     * Send a SUBSCRIBE/UNSUBSCRIBE request and wait for its ack
+     */
+    private sendControl(method: ControlMethod, symbol: string, ws: WebSocket): Promise<void> {
+        const id = this.nextRequestId++;
+        const params = this.streamNames(symbol);
+
+        return new Promise<void>((resolve, reject) => {
+            const timer = setTimeout(() => {
+                this.settleControl(id, new Error(`No ack within ${env.BINANCE_WS_REQUEST_TIMEOUT_MS}ms`));
+            }, env.BINANCE_WS_REQUEST_TIMEOUT_MS);
+
+            this.pendingControls.set(id, { method, symbol, ws, timer, resolve, reject });
 
-            if (!message.data || !message.data.p) {
-                return;
+            logger.info('spot.ws.control_sent', {
+                venue: this.venue,
+                id,
+                method,
+                symbol,
+                params,
+            });
+
+            try {
+                ws.send(JSON.stringify({ method, params, id }));
+            } catch (error) {
+                this.settleControl(id, error instanceof Error ? error : new Error(String(error)));
             }
+        });
+    }
+
+    /**
+     * Handle a control ack or error response
+     */
+    private handleControlResponse(response: BinanceControlResponse): void {
+        if (!this.pendingControls.has(response.id)) {
+            logger.warn('spot.ws.control_unknown_id', {
+                venue: this.venue,
+                id: response.id,
+            });
+            return;
+        }
+
+        this.settleControl(
+            response.id,
+            response.error ? new Error(`Binance error ${response.error.code}: ${response.error.msg}`) : null
+        );
+    }
+
+    /**
+     * Resolve or reject a pending control request
+     */
+    private settleControl(id: number, error: Error | null): void {
+        const pending = this.pendingControls.get(id);
+        if (!pending) {
+            return;
+        }
+
+        clearTimeout(pending.timer);
+        this.pendingControls.delete(id);
 
-            const trade = message.data;
-            const tsLocal = Date.now();
-
-            // Normalize to SpotTick
-            const tick: SpotTick = {
-                symbol: trade.s.toUpperCase(), // btcusdt -> BTCUSDT
-                price: parseFloat(trade.p),
-                tsExchange: trade.T,
-                tsLocal,
-            };
-
-            this.processTick(tick);
-        } catch (error) {
-            logger.error('spot.ws.parse_error', {
-                error: error instanceof Error ? error.message : String(error),
+        if (error) {
+            logger.error('spot.ws.control_failed', {
+                venue: this.venue,
+                id,
+                method: pending.method,
+                symbol: pending.symbol,
+                error: error.message,
             });
+            pending.reject(error);
+            return;
         }
+
+        const streamed = this.socketSymbols.get(pending.ws);
+        if (pending.method === 'SUBSCRIBE') {
+            streamed?.add(pending.symbol);
+        } else {
+            streamed?.delete(pending.symbol);
+        }
+
+        logger.info('spot.ws.control_ack', {
+            venue: this.venue,
+            id,
+            method: pending.method,
+            symbol: pending.symbol,
+        });
+        pending.resolve();
     }
 
     /**
-     * Process a tick: update buffers, calculate returns, emit logs
+     * All combined-stream names for a symbol
      */
-    private processTick(tick: SpotTick): void {
-        const { symbol, price, tsExchange, tsLocal } = tick;
+    private streamNames(symbol: string): string[] {
+        return this.streamKinds.map(kind => this.streamName(symbol, kind));
+    }
 
-        // Always update latest price
-        this.latestPrice.set(symbol, price);
+    /**
+     * Combined-stream name for a symbol and stream kind
+     */
+    private streamName(symbol: string, kind: BinanceStreamKind): string {
+        const base = symbol.toLowerCase();
+
+        switch (kind) {
+            case 'trade':
+                return `${base}@trade`;
+            case 'bookTicker':
+                return `${base}@bookTicker`;
+            case 'depth':
+                return `${base}@depth${env.BINANCE_DEPTH_LEVELS}@100ms`;
+        }
+    }
 
-        // Downsampling: only add to buffer if enough time has passed
-        const lastSample = this.lastSampleTime.get(symbol) || 0;
-        const shouldSample = (tsLocal - lastSample) >= env.SPOT_BUFFER_SAMPLE_MS;
+    /**
+     * Parse a combined-stream message, dispatching on the stream name
+     */
+    protected parseMessage(message: string, tsLocal: number): SpotTick[] {
+        const parsed = JSON.parse(message) as BinanceStreamMessage | BinanceControlResponse;
 
-        if (shouldSample) {
-            this.lastSampleTime.set(symbol, tsLocal);
+        if ('id' in parsed && parsed.id !== undefined) {
+            this.handleControlResponse(parsed);
+            return [];
+        }
 
-            // Add to buffer
-            if (!this.priceBuffer.has(symbol)) {
-                this.priceBuffer.set(symbol, []);
-            }
-            const buffer = this.priceBuffer.get(symbol)!;
-            buffer.push(tick);
+        if (!('stream' in parsed) || !parsed.stream || !parsed.data) {
+            return [];
+        }
 
-            // Clean old ticks outside the window using incremental shift
-            const cutoff = tsLocal - env.SPOT_RETURN_WINDOW_MS;
-            while (buffer.length > 0 && buffer[0].tsLocal < cutoff) {
-                buffer.shift();
-            }
+        // btcusdt@depth5@100ms -> [btcusdt, depth5, 100ms]
+        const [streamSymbol, streamType] = parsed.stream.split('@');
+
+        if (streamType === 'trade') {
+            return this.parseTrade(parsed.data as BinanceTradeEvent, tsLocal);
         }
 
-        // Calculate latency
-        const latencyMs = tsLocal - tsExchange;
+        if (streamType === 'bookTicker') {
+            this.handleBookTicker(parsed.data as BinanceBookTickerEvent, tsLocal);
+        } else if (streamType.startsWith('depth')) {
+            this.handleDepth(streamSymbol.toUpperCase(), parsed.data as BinanceDepthEvent, tsLocal);
+        }
 
-        // Debug log every tick (will be filtered by LOG_LEVEL)
-        logger.debug('spot.tick', {
-            symbol,
-            price,
-            latencyMs,
-            tsExchange,
+        return [];
+    }
+
+    /**
+     * Normalize a trade event to SpotTick
+     */
+    private parseTrade(trade: BinanceTradeEvent, tsLocal: number): SpotTick[] {
+        if (!trade.p) {
+            return [];
+        }
+
+        return [{
+            venue: this.venue,
+            symbol: trade.s.toUpperCase(), // btcusdt -> BTCUSDT
+            price: parseFloat(trade.p),
+            size: parseFloat(trade.q),
+            side: trade.m ? 'sell' : 'buy', // Buyer is maker -> seller aggressed
+            tradeId: trade.t,
+            tsExchange: trade.T,
             tsLocal,
-        });
+        }];
+    }
 
-        // Calculate return if we have enough history
-        const buffer = this.priceBuffer.get(symbol);
-        if (buffer && buffer.length > 1) {
-            const oldestTick = buffer[0];
-            const currentTick: SpotTick = {
-                symbol,
-                price,
-                tsExchange,
-                tsLocal,
-            };
-
-            const priceReturn = this.calculateReturn(currentTick, oldestTick);
-
-            // Only emit spot.move if window is at least 80% of configured window
-            const minWindowMs = env.SPOT_RETURN_WINDOW_MS * 0.8;
-
-            if (priceReturn.windowMs >= minWindowMs &&
-                Math.abs(priceReturn.returnBps) >= env.SPOT_MOVE_THRESHOLD_BPS) {
-                logger.warn('spot.move', {
-                    symbol: priceReturn.symbol,
-                    returnBps: priceReturn.returnBps.toFixed(2),
-                    direction: priceReturn.direction,
-                    currentPrice: priceReturn.currentPrice,
-                    pastPrice: priceReturn.pastPrice,
-                    windowMs: priceReturn.windowMs,
-                });
-            }
+    /**
+     * Best bid/ask update
+     */
+    private handleBookTicker(event: BinanceBookTickerEvent, tsLocal: number): void {
+        const quote = this.buildQuote(
+            event.s.toUpperCase(),
+            'bookTicker',
+            [event.b, event.B],
+            [event.a, event.A],
+            tsLocal
+        );
+
+        if (quote) {
+            this.processQuote(quote);
         }
     }
 
     /**
-     * Calculate price return between two ticks
+     * Partial depth snapshot (top N levels)
      */
-    private calculateReturn(current: SpotTick, past: SpotTick): PriceReturn {
-        const returnRatio = (current.price / past.price) - 1;
-        const returnBps = returnRatio * 10000;
+    private handleDepth(symbol: string, event: BinanceDepthEvent, tsLocal: number): void {
+        if (!event.bids?.length || !event.asks?.length) {
+            return;
+        }
 
-        return {
-            symbol: current.symbol,
-            currentPrice: current.price,
-            pastPrice: past.price,
-            returnBps,
-            direction: returnBps > 0 ? 'up' : 'down',
-            windowMs: current.tsLocal - past.tsLocal,
-        };
+        const quote = this.buildQuote(symbol, 'depth', event.bids[0], event.asks[0], tsLocal);
+
+        if (quote) {
+            quote.bidDepth = event.bids.reduce((sum, [, qty]) => sum + parseFloat(qty), 0);
+            quote.askDepth = event.asks.reduce((sum, [, qty]) => sum + parseFloat(qty), 0);
+            this.processQuote(quote);
+        }
     }
 
     /**
-     * Start periodic snapshot logging
+     * Build a quote with mid and microprice from best levels
      */
-    private startSnapshotTimer(): void {
-        this.snapshotTimer = setInterval(() => {
-            const snapshot: Record<string, number> = {};
+    private buildQuote(
+        symbol: string,
+        source: SpotQuote['source'],
+        [bidPx, bidQty]: [string, string],
+        [askPx, askQty]: [string, string],
+        tsLocal: number
+    ): SpotQuote | null {
+        const bidPrice = parseFloat(bidPx);
+        const bidSize = parseFloat(bidQty);
+        const askPrice = parseFloat(askPx);
+        const askSize = parseFloat(askQty);
+
+        if (!(bidPrice > 0) || !(askPrice > 0) || askPrice < bidPrice) {
+            return null;
+        }
 
-            for (const [symbol, price] of this.latestPrice.entries()) {
-                snapshot[symbol] = price;
-            }
+        const midPrice = (bidPrice + askPrice) / 2;
+        const totalSize = bidSize + askSize;
+        const microPrice = totalSize > 0
+            ? (bidPrice * askSize + askPrice * bidSize) / totalSize
+            : midPrice;
 
-            if (Object.keys(snapshot).length > 0) {
-                logger.info('spot.snapshot', {
-                    prices: snapshot,
-                    bufferSizes: Object.fromEntries(
-                        Array.from(this.priceBuffer.entries()).map(([sym, buf]) => [sym, buf.length])
-                    ),
-                });
-            }
-        }, env.SPOT_SNAPSHOT_INTERVAL_MS);
+        return {
+            venue: this.venue,
+            symbol,
+            source,
+            bidPrice,
+            bidSize,
+            askPrice,
+            askSize,
+            midPrice,
+            microPrice,
+            // Spot book streams carry no event time
+            tsExchange: tsLocal,
+            tsLocal,
+        };
     }
 }
@@ -0,0 +1,82 @@
+import { logger } from '../../infra/logger.js';
+import { env } from '../../config/env.js';
+import { WsSpotFeed } from './ws_spot_feed.js';
+import { parseSymbolList, toCoinbaseProduct } from './symbols.js';
+import type { SpotTick, CoinbaseMatchMessage, SpotFeedOptions } from './types.js';
+
+/**
+ * Coinbase Exchange WebSocket Client (`matches` channel)
+ */
+export class CoinbaseSpotFeed extends WsSpotFeed {
+    public readonly venue = 'coinbase' as const;
+
+    // Coinbase product id -> canonical symbol
+    private readonly productToSymbol = new Map<string, string>();
+
+    constructor(symbols: string[] = parseSymbolList(env.SPOT_SYMBOLS), options: SpotFeedOptions = {}) {
+        super(symbols, options);
+
+        for (const symbol of this.symbols) {
+            this.productToSymbol.set(toCoinbaseProduct(symbol), symbol);
+        }
+    }
+
+    protected getUrl(): string {
+        return env.COINBASE_WS_BASE;
+    }
+
+    /**
+     * Trade ids are contiguous per symbol
+     */
+    protected hasContiguousTradeIds(): boolean {
+        return true;
+    }
+
+    /**
+     * Subscribe to matches for all configured products
+     */
+    protected onOpen(ws: WebSocket): void {
+        ws.send(JSON.stringify({
+            type: 'subscribe',
+            product_ids: Array.from(this.productToSymbol.keys()),
+            channels: ['matches'],
+        }));
+    }
+
+    /**
+     * Parse a matches channel message
+     */
+    protected parseMessage(message: string, tsLocal: number): SpotTick[] {
+        const parsed = JSON.parse(message) as CoinbaseMatchMessage;
+
+        if (parsed.type === 'error') {
+            logger.error('spot.ws.venue_error', {
+                venue: this.venue,
+                message: parsed.message,
+            });
+            return [];
+        }
+
+        // last_match is the replayed trade on subscribe; treat it like a live print
+        if (parsed.type !== 'match' && parsed.type !== 'last_match') {
+            return [];
+        }
+
+        const symbol = parsed.product_id ? this.productToSymbol.get(parsed.product_id) : undefined;
+        if (!symbol || !parsed.price || !parsed.time) {
+            return [];
+        }
+
+        return [{
+            venue: this.venue,
+            symbol,
+            price: parseFloat(parsed.price),
+            size: parsed.size ? parseFloat(parsed.size) : undefined,
+            // Coinbase reports the maker side; the aggressor is the opposite
+            side: parsed.side ? (parsed.side === 'buy' ? 'sell' : 'buy') : undefined,
+            tradeId: parsed.trade_id,
+            tsExchange: Date.parse(parsed.time),
+            tsLocal,
+        }];
+    }
+}
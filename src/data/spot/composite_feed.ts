@@ -0,0 +1,478 @@
+import { logger } from '../../infra/logger.js';
+import { env } from '../../config/env.js';
+import { TypedEventEmitter } from '../../infra/typed_emitter.js';
+import { SpotMoveDetector } from './move_detector.js';
+import { TradeFlowTracker } from './trade_flow.js';
+import { logFlow } from './ws_spot_feed.js';
+import { supportsSubscriptions } from './types.js';
+import type {
+    DynamicSpotFeed,
+    RealizedVol,
+    SpotFeed,
+    SpotFeedEvents,
+    SpotPriceSource,
+    SpotQuote,
+    SpotTick,
+    SpotVenue,
+    TradeGap,
+} from './types.js';
+
+/**
+ * Reference price aggregation method
+ */
+export type CompositeMethod = 'median' | 'vwap';
+
+/**
+ * Composite feed configuration
+ */
+export interface CompositeFeedConfig {
+    method: CompositeMethod;
+    maxDeviationBps: number;    // Reject venues further than this from the median
+    staleMs: number;            // Ignore venue prices older than this
+    minVenues: number;          // Minimum agreeing venues to publish a price
+    priceSource: SpotPriceSource; // Venue series to blend (trade, or mid/microprice where streamed)
+}
+
+/**
+ * Latest state of one venue for one symbol
+ */
+interface VenueQuote {
+    venue: SpotVenue;
+    price: number;
+    source: 'trade' | 'quote';  // Series the price came from
+    tsExchange: number;
+    tsLocal: number;
+    volume: number;             // Exponentially decayed traded volume
+    volumeAt: number;           // Local time the volume was last updated
+}
+
+/**
+ * Composite Spot Feed
+ *
+ * Blends several venue feeds into one reference price per symbol and
+ * runs move detection on that price only, so a single venue glitch or
+ * outage cannot produce a `move` on its own.
+ *
+ * Venues are priced from the configured series: mid/microprice where the
+ * venue streams quotes, trades otherwise. Outliers are only rejected
+ * against the median of three or more fresh venues; two venues that
+ * disagree hold the reference, since neither can be singled out. A trade
+ * gap on any venue suppresses composite moves until the longest horizon
+ * has refilled, as a single venue feed does.
+ */
+export class CompositeSpotFeed extends TypedEventEmitter<SpotFeedEvents> implements SpotFeed {
+    public readonly venue = 'composite' as const;
+
+    // symbol -> venue -> latest quote
+    private quotes = new Map<string, Map<SpotVenue, VenueQuote>>();
+
+    // Latest reference price and its update time per symbol
+    private referencePrice = new Map<string, number>();
+    private referenceUpdatedAt = new Map<string, number>();
+
+    // Suppress moves until this time after a venue trade gap
+    private unreliableUntil = new Map<string, number>();
+
+    private snapshotTimer: NodeJS.Timeout | null = null;
+    private flowTimer: NodeJS.Timeout | null = null;
+    private readonly moveDetector = new SpotMoveDetector();
+
+    // Trade flow summed across all venues
+    private readonly flowTracker = new TradeFlowTracker('composite');
+    private readonly config: CompositeFeedConfig;
+
+    constructor(
+        private readonly feeds: SpotFeed[],
+        config: Partial<CompositeFeedConfig> = {}
+    ) {
+        super();
+
+        this.config = {
+            method: config.method ?? env.SPOT_COMPOSITE_METHOD,
+            maxDeviationBps: config.maxDeviationBps ?? env.SPOT_COMPOSITE_MAX_DEVIATION_BPS,
+            staleMs: config.staleMs ?? env.SPOT_COMPOSITE_STALE_MS,
+            minVenues: config.minVenues ?? env.SPOT_COMPOSITE_MIN_VENUES,
+            priceSource: config.priceSource ?? env.SPOT_PRICE_SOURCE,
+        };
+
+        for (const feed of this.feeds) {
+            feed.on('tick', (tick) => this.handleVenueTick(tick));
+            feed.on('gap', (gap) => this.handleVenueGap(gap));
+            if (this.config.priceSource !== 'trade') {
+                feed.on('quote', (quote) => this.handleVenueQuote(quote));
+            }
+        }
+    }
+
+    /**
+     * Start all venue feeds
+     */
+    public start(): void {
+        logger.info('spot.composite.started', {
+            venues: this.feeds.map(f => f.venue),
+            ...this.config,
+        });
+
+        for (const feed of this.feeds) {
+            feed.start();
+        }
+
+        this.startSnapshotTimer();
+        this.startFlowTimer();
+    }
+
+    /**
+     * Stop all venue feeds
+     */
+    public stop(): void {
+        if (this.snapshotTimer) {
+            clearInterval(this.snapshotTimer);
+            this.snapshotTimer = null;
+        }
+
+        if (this.flowTimer) {
+            clearInterval(this.flowTimer);
+            this.flowTimer = null;
+        }
+
+        for (const feed of this.feeds) {
+            feed.stop();
+        }
+    }
+
+    /**
+     * Latest reference price for a symbol
+     */
+    public getReferencePrice(symbol: string): number | undefined {
+        return this.referencePrice.get(symbol);
+    }
+
+    /**
+     * Realized volatility of the reference price
+     */
+    public getRealizedVol(symbol: string): RealizedVol | null {
+        return this.moveDetector.getRealizedVol(symbol);
+    }
+
+    /**
+     * Sampled reference price as of a timestamp
+     */
+    public getPriceAt(symbol: string, ts: number): SpotTick | null {
+        return this.moveDetector.getPriceAt(symbol, ts);
+    }
+
+    /**
+     * Subscribe a symbol on every venue that supports live subscriptions
+     */
+    public async subscribe(symbol: string): Promise<void> {
+        await Promise.all(this.getDynamicFeeds('subscribe', symbol).map(feed => feed.subscribe(symbol)));
+    }
+
+    /**
+     * Unsubscribe a symbol on every venue that supports live subscriptions
+     */
+    public async unsubscribe(symbol: string): Promise<void> {
+        await Promise.all(this.getDynamicFeeds('unsubscribe', symbol).map(feed => feed.unsubscribe(symbol)));
+    }
+
+    /**
+     * Venue feeds with live subscription support (warns if there are none)
+     */
+    private getDynamicFeeds(action: 'subscribe' | 'unsubscribe', symbol: string): DynamicSpotFeed[] {
+        const dynamic = this.feeds.filter(supportsSubscriptions);
+
+        if (dynamic.length === 0) {
+            logger.warn('spot.composite.subscribe_unsupported', {
+                action,
+                symbol,
+                venues: this.feeds.map(feed => feed.venue),
+            });
+        }
+
+        return dynamic;
+    }
+
+    /**
+     * True if the reference price has not updated recently
+     * (all venues stale, or too few agreeing venues)
+     */
+    public isStale(symbol: string): boolean {
+        const updatedAt = this.referenceUpdatedAt.get(symbol);
+        return updatedAt === undefined || Date.now() - updatedAt > env.SPOT_STALE_SYMBOL_MS;
+    }
+
+    /**
+     * Record venue trade volume and, for trade-priced venues, its price
+     */
+    private handleVenueTick(tick: SpotTick): void {
+        const venueQuotes = this.getVenueQuotes(tick.symbol);
+        const previous = venueQuotes.get(tick.venue);
+        const volume = this.decayedVolume(previous, tick.tsLocal) + (tick.size ?? 0);
+
+        this.flowTracker.record(tick);
+
+        // Venues streaming the configured quote series are priced from it;
+        // their trades only add volume while that series is fresh
+        if (previous?.source === 'quote' && tick.tsLocal - previous.tsLocal <= this.config.staleMs) {
+            previous.volume = volume;
+            previous.volumeAt = tick.tsLocal;
+            return;
+        }
+
+        venueQuotes.set(tick.venue, {
+            venue: tick.venue,
+            price: tick.price,
+            source: 'trade',
+            tsExchange: tick.tsExchange,
+            tsLocal: tick.tsLocal,
+            volume,
+            volumeAt: tick.tsLocal,
+        });
+
+        this.updateReference(tick.symbol, tick.tsLocal, tick.size);
+    }
+
+    /**
+     * Price a venue from its mid or microprice
+     */
+    private handleVenueQuote(quote: SpotQuote): void {
+        const venueQuotes = this.getVenueQuotes(quote.symbol);
+        const previous = venueQuotes.get(quote.venue);
+
+        venueQuotes.set(quote.venue, {
+            venue: quote.venue,
+            price: this.config.priceSource === 'mid' ? quote.midPrice : quote.microPrice,
+            source: 'quote',
+            tsExchange: quote.tsExchange,
+            tsLocal: quote.tsLocal,
+            volume: this.decayedVolume(previous, quote.tsLocal),
+            volumeAt: quote.tsLocal,
+        });
+
+        this.updateReference(quote.symbol, quote.tsLocal);
+    }
+
+    /**
+     * Distrust the composite return window after a venue trade gap
+     */
+    private handleVenueGap(gap: TradeGap): void {
+        if (env.SPOT_GAP_INVALIDATES_WINDOW) {
+            const until = gap.tsLocal + Math.max(...env.SPOT_RETURN_HORIZONS_MS);
+            this.unreliableUntil.set(gap.symbol, Math.max(until, this.unreliableUntil.get(gap.symbol) ?? 0));
+        }
+
+        this.emit('gap', gap);
+    }
+
+    /**
+     * Per-venue state for a symbol
+     */
+    private getVenueQuotes(symbol: string): Map<SpotVenue, VenueQuote> {
+        if (!this.quotes.has(symbol)) {
+            this.quotes.set(symbol, new Map());
+        }
+        return this.quotes.get(symbol)!;
+    }
+
+    /**
+     * Previous venue volume decayed to `now`, so weights track recent activity
+     */
+    private decayedVolume(previous: VenueQuote | undefined, now: number): number {
+        return previous
+            ? previous.volume * Math.exp(-(now - previous.volumeAt) / this.config.staleMs)
+            : 0;
+    }
+
+    /**
+     * Recompute the reference price, emit it and run move detection
+     */
+    private updateReference(symbol: string, now: number, size?: number): void {
+        const reference = this.computeReference(symbol, this.getVenueQuotes(symbol), now);
+        if (!reference) {
+            return;
+        }
+
+        this.referencePrice.set(symbol, reference.price);
+        this.referenceUpdatedAt.set(symbol, now);
+
+        const compositeTick: SpotTick = {
+            venue: this.venue,
+            symbol,
+            price: reference.price,
+            size,
+            tsExchange: reference.tsExchange,
+            tsLocal: now,
+        };
+
+        this.emit('tick', compositeTick);
+
+        const priceReturn = this.moveDetector.update(compositeTick);
+
+        // Keep sampling while unreliable so the window refills, but don't emit
+        const unreliableUntil = this.unreliableUntil.get(symbol);
+        if (priceReturn && unreliableUntil !== undefined && now < unreliableUntil) {
+            logger.debug('spot.move.suppressed', {
+                venue: this.venue,
+                symbol,
+                returnBps: priceReturn.returnBps.toFixed(2),
+                reason: 'trade_gap',
+            });
+            return;
+        }
+
+        if (priceReturn) {
+            priceReturn.flow = this.flowTracker.getStatsFor(symbol, priceReturn.windowMs, now);
+
+            logger.warn('spot.move', {
+                venue: this.venue,
+                priceSource: this.config.priceSource,
+                symbol: priceReturn.symbol,
+                returnBps: priceReturn.returnBps.toFixed(2),
+                direction: priceReturn.direction,
+                currentPrice: priceReturn.currentPrice,
+                pastPrice: priceReturn.pastPrice,
+                windowMs: priceReturn.windowMs,
+                horizonMs: priceReturn.horizonMs,
+                zScore: priceReturn.zScore?.toFixed(2) ?? null,
+                horizonVolBps: priceReturn.horizonVolBps?.toFixed(2) ?? null,
+                flowImbalance: priceReturn.flow?.imbalance.toFixed(3) ?? null,
+                flowNotional: priceReturn.flow?.notional.toFixed(2) ?? null,
+                venues: reference.venues,
+            });
+
+            this.emit('move', priceReturn);
+        }
+    }
+
+    /**
+     * Compute reference price from fresh, non-outlier venues
+     */
+    private computeReference(
+        symbol: string,
+        venueQuotes: Map<SpotVenue, VenueQuote>,
+        now: number
+    ): { price: number; tsExchange: number; venues: SpotVenue[] } | null {
+        const fresh = Array.from(venueQuotes.values())
+            .filter(q => now - q.tsLocal <= this.config.staleMs);
+
+        if (fresh.length === 0) {
+            return null;
+        }
+
+        const median = this.median(fresh.map(q => q.price));
+
+        // Two venues apart can't say which one is wrong: hold the reference
+        if (fresh.length < 3) {
+            const prices = fresh.map(q => q.price);
+            const spreadBps = (Math.max(...prices) / Math.min(...prices) - 1) * 10000;
+
+            if (spreadBps > this.config.maxDeviationBps) {
+                logger.debug('spot.composite.disagreement', {
+                    symbol,
+                    prices: Object.fromEntries(fresh.map(q => [q.venue, q.price])),
+                    spreadBps: spreadBps.toFixed(2),
+                });
+                return null;
+            }
+        }
+
+        const accepted: VenueQuote[] = [];
+        for (const quote of fresh) {
+            const deviationBps = Math.abs(quote.price / median - 1) * 10000;
+
+            if (deviationBps > this.config.maxDeviationBps) {
+                logger.debug('spot.composite.outlier', {
+                    symbol,
+                    venue: quote.venue,
+                    price: quote.price,
+                    median,
+                    deviationBps: deviationBps.toFixed(2),
+                });
+                continue;
+            }
+
+            accepted.push(quote);
+        }
+
+        if (accepted.length < Math.min(this.config.minVenues, this.feeds.length)) {
+            return null;
+        }
+
+        let price = this.median(accepted.map(q => q.price));
+
+        if (this.config.method === 'vwap') {
+            const totalVolume = accepted.reduce((sum, q) => sum + q.volume, 0);
+            if (totalVolume > 0) {
+                price = accepted.reduce((sum, q) => sum + q.price * q.volume, 0) / totalVolume;
+            }
+        }
+
+        return {
+            price,
+            tsExchange: Math.max(...accepted.map(q => q.tsExchange)),
+            venues: accepted.map(q => q.venue),
+        };
+    }
+
+    /**
+     * Median of a non-empty list
+     */
+    private median(values: number[]): number {
+        const sorted = [...values].sort((a, b) => a - b);
+        const mid = Math.floor(sorted.length / 2);
+
+        return sorted.length % 2 === 0
+            ? (sorted[mid - 1] + sorted[mid]) / 2
+            : sorted[mid];
+    }
+
+    /**
+     * Start periodic cross-venue trade flow summaries
+     */
+    private startFlowTimer(): void {
+        this.flowTimer = setInterval(() => {
+            for (const symbol of this.flowTracker.getSymbols()) {
+                for (const stats of this.flowTracker.getStats(symbol)) {
+                    logFlow(stats);
+                    this.emit('flow', stats);
+                }
+            }
+        }, env.SPOT_FLOW_EMIT_MS);
+    }
+
+    /**
+     * Start periodic snapshot logging with per-venue prices
+     */
+    private startSnapshotTimer(): void {
+        this.snapshotTimer = setInterval(() => {
+            if (this.referencePrice.size === 0) {
+                return;
+            }
+
+            const now = Date.now();
+            const venues: Record<string, Record<string, { price: number; ageMs: number }>> = {};
+
+            for (const [symbol, venueQuotes] of this.quotes.entries()) {
+                venues[symbol] = {};
+                for (const quote of venueQuotes.values()) {
+                    venues[symbol][quote.venue] = {
+                        price: quote.price,
+                        ageMs: now - quote.tsLocal,
+                    };
+                }
+            }
+
+            logger.info('spot.composite.snapshot', {
+                prices: Object.fromEntries(this.referencePrice.entries()),
+                venues,
+                bufferSizes: this.moveDetector.getBufferSizes(),
+                volPerSecondBps: Object.fromEntries(
+                    Array.from(this.referencePrice.keys()).map(sym => [
+                        sym,
+                        this.moveDetector.getRealizedVol(sym)?.volPerSecondBps ?? null,
+                    ])
+                ),
+            });
+        }, env.SPOT_SNAPSHOT_INTERVAL_MS);
+    }
+}
@@ -0,0 +1,90 @@
+import { logger } from '../../infra/logger.js';
+import { env } from '../../config/env.js';
+import { WsSpotFeed } from './ws_spot_feed.js';
+import { parseSymbolList, toKrakenPair } from './symbols.js';
+import type { SpotTick, KrakenTradeMessage, SpotFeedOptions } from './types.js';
+
+/**
+ * Kraken v2 WebSocket Client (`trade` channel)
+ */
+export class KrakenSpotFeed extends WsSpotFeed {
+    public readonly venue = 'kraken' as const;
+
+    // Kraken pair -> canonical symbol
+    private readonly pairToSymbol = new Map<string, string>();
+
+    constructor(symbols: string[] = parseSymbolList(env.SPOT_SYMBOLS), options: SpotFeedOptions = {}) {
+        super(symbols, options);
+
+        for (const symbol of this.symbols) {
+            this.pairToSymbol.set(toKrakenPair(symbol), symbol);
+        }
+    }
+
+    protected getUrl(): string {
+        return env.KRAKEN_WS_BASE;
+    }
+
+    /**
+     * Trade ids are contiguous per symbol
+     */
+    protected hasContiguousTradeIds(): boolean {
+        return true;
+    }
+
+    /**
+     * Subscribe to trades for all configured pairs
+     */
+    protected onOpen(ws: WebSocket): void {
+        ws.send(JSON.stringify({
+            method: 'subscribe',
+            params: {
+                channel: 'trade',
+                symbol: Array.from(this.pairToSymbol.keys()),
+                snapshot: false,
+            },
+        }));
+    }
+
+    /**
+     * Parse a trade channel message
+     */
+    protected parseMessage(message: string, tsLocal: number): SpotTick[] {
+        const parsed = JSON.parse(message) as KrakenTradeMessage;
+
+        if (parsed.method === 'subscribe' && parsed.success === false) {
+            logger.error('spot.ws.venue_error', {
+                venue: this.venue,
+                message: parsed.error,
+            });
+            return [];
+        }
+
+        // Skip heartbeats, status and historical snapshots
+        if (parsed.channel !== 'trade' || parsed.type !== 'update' || !parsed.data) {
+            return [];
+        }
+
+        const ticks: SpotTick[] = [];
+
+        for (const trade of parsed.data) {
+            const symbol = this.pairToSymbol.get(trade.symbol);
+            if (!symbol) {
+                continue;
+            }
+
+            ticks.push({
+                venue: this.venue,
+                symbol,
+                price: trade.price,
+                size: trade.qty,
+                side: trade.side,
+                tradeId: trade.trade_id,
+                tsExchange: Date.parse(trade.timestamp),
+                tsLocal,
+            });
+        }
+
+        return ticks;
+    }
+}
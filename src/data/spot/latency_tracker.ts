@@ -0,0 +1,202 @@
+import { env } from '../../config/env.js';
+import type { LatencyStats, SpotVenue } from './types.js';
+
+/**
+ * Histogram bucket upper bounds in ms (last bucket is open-ended)
+ */
+const HISTOGRAM_BUCKETS_MS = [5, 10, 25, 50, 100, 250, 500, 1000, 2500];
+
+/**
+ * Hard cap on stored samples per symbol (trade-level rates can be high)
+ */
+const MAX_SAMPLES = 50000;
+
+/**
+ * Latency tracker configuration
+ */
+export interface LatencyTrackerConfig {
+    windowMs: number;
+    warnMs: number;           // Adjusted p90 above this marks the symbol degraded
+}
+
+/**
+ * Single latency sample
+ */
+interface LatencySample {
+    tsLocal: number;
+    latencyMs: number;
+}
+
+/**
+ * Rolling exchange-to-local latency tracker
+ *
+ * Raw latency (tsLocal - tsExchange) mixes network delay with clock skew.
+ * The minimum over the window approximates skew + baseline delay, so
+ * percentiles are also reported relative to it; degradation is judged
+ * on the adjusted p90, which is immune to a constant clock offset.
+ */
+export class LatencyTracker {
+    // symbol -> samples, oldest first (head index avoids O(n) shifts)
+    private samples = new Map<string, LatencySample[]>();
+    private heads = new Map<string, number>();
+
+    // Symbols currently flagged as degraded
+    private degraded = new Set<string>();
+
+    private readonly config: LatencyTrackerConfig;
+
+    constructor(
+        private readonly venue: SpotVenue,
+        config: Partial<LatencyTrackerConfig> = {}
+    ) {
+        this.config = {
+            windowMs: config.windowMs ?? env.SPOT_LATENCY_WINDOW_MS,
+            warnMs: config.warnMs ?? env.SPOT_LATENCY_WARN_MS,
+        };
+    }
+
+    /**
+     * Record one exchange/local timestamp pair
+     */
+    public record(symbol: string, tsExchange: number, tsLocal: number): void {
+        if (!Number.isFinite(tsExchange) || tsExchange <= 0) {
+            return;
+        }
+
+        if (!this.samples.has(symbol)) {
+            this.samples.set(symbol, []);
+            this.heads.set(symbol, 0);
+        }
+
+        const buffer = this.samples.get(symbol)!;
+        buffer.push({ tsLocal, latencyMs: tsLocal - tsExchange });
+
+        this.prune(symbol, tsLocal);
+    }
+
+    /**
+     * Compute the current summary for a symbol
+     */
+    public getStats(symbol: string, now: number = Date.now()): LatencyStats | null {
+        if (!this.samples.has(symbol)) {
+            return null;
+        }
+
+        this.prune(symbol, now);
+
+        const buffer = this.samples.get(symbol)!;
+        const head = this.heads.get(symbol)!;
+        const values = buffer.slice(head).map(s => s.latencyMs);
+
+        if (values.length === 0) {
+            return null;
+        }
+
+        values.sort((a, b) => a - b);
+
+        const minMs = values[0];
+        const p50Ms = this.percentile(values, 0.5);
+        const p90Ms = this.percentile(values, 0.9);
+        const p99Ms = this.percentile(values, 0.99);
+        const meanMs = values.reduce((sum, v) => sum + v, 0) / values.length;
+
+        const histogram: Record<string, number> = {};
+        for (const bound of HISTOGRAM_BUCKETS_MS) {
+            histogram[`le_${bound}`] = 0;
+        }
+        histogram['gt_' + HISTOGRAM_BUCKETS_MS[HISTOGRAM_BUCKETS_MS.length - 1]] = 0;
+
+        // Buckets on adjusted latency so they stay meaningful under clock skew
+        for (const value of values) {
+            const adjusted = value - minMs;
+            const bound = HISTOGRAM_BUCKETS_MS.find(b => adjusted <= b);
+            const key = bound !== undefined
+                ? `le_${bound}`
+                : 'gt_' + HISTOGRAM_BUCKETS_MS[HISTOGRAM_BUCKETS_MS.length - 1];
+            histogram[key]++;
+        }
+
+        return {
+            venue: this.venue,
+            symbol,
+            samples: values.length,
+            windowMs: this.config.windowMs,
+            minMs,
+            p50Ms,
+            p90Ms,
+            p99Ms,
+            maxMs: values[values.length - 1],
+            meanMs,
+            clockOffsetMs: minMs,
+            adjustedP50Ms: p50Ms - minMs,
+            adjustedP90Ms: p90Ms - minMs,
+            adjustedP99Ms: p99Ms - minMs,
+            histogram,
+            degraded: p90Ms - minMs > this.config.warnMs,
+        };
+    }
+
+    /**
+     * Drop a symbol's samples and degraded flag
+     */
+    public reset(symbol: string): void {
+        this.samples.delete(symbol);
+        this.heads.delete(symbol);
+        this.degraded.delete(symbol);
+    }
+
+    /**
+     * Symbols with at least one sample
+     */
+    public getSymbols(): string[] {
+        return Array.from(this.samples.keys());
+    }
+
+    /**
+     * Update degraded state; returns the transition, if any
+     */
+    public updateDegraded(stats: LatencyStats): 'degraded' | 'recovered' | null {
+        const wasDegraded = this.degraded.has(stats.symbol);
+
+        if (stats.degraded && !wasDegraded) {
+            this.degraded.add(stats.symbol);
+            return 'degraded';
+        }
+
+        if (!stats.degraded && wasDegraded) {
+            this.degraded.delete(stats.symbol);
+            return 'recovered';
+        }
+
+        return null;
+    }
+
+    /**
+     * Drop samples outside the window and compact occasionally
+     */
+    private prune(symbol: string, now: number): void {
+        const buffer = this.samples.get(symbol)!;
+        let head = this.heads.get(symbol)!;
+        const cutoff = now - this.config.windowMs;
+
+        while (head < buffer.length && (buffer[head].tsLocal < cutoff || buffer.length - head > MAX_SAMPLES)) {
+            head++;
+        }
+
+        // Compact once the dead prefix dominates
+        if (head > 1024 && head * 2 > buffer.length) {
+            buffer.splice(0, head);
+            head = 0;
+        }
+
+        this.heads.set(symbol, head);
+    }
+
+    /**
+     * Nearest-rank percentile of a sorted list
+     */
+    private percentile(sorted: number[], q: number): number {
+        const index = Math.min(sorted.length - 1, Math.ceil(q * sorted.length) - 1);
+        return sorted[Math.max(0, index)];
+    }
+}
@@ -0,0 +1,305 @@
+import { env } from '../../config/env.js';
+import { TimeRingBuffer } from '../../infra/time_ring_buffer.js';
+import type { SpotTick, PriceReturn, RealizedVol } from './types.js';
+
+/**
+ * Milliseconds per year (for annualizing realized variance)
+ */
+const MS_PER_YEAR = 365 * 24 * 60 * 60 * 1000;
+
+/**
+ * Move threshold mode
+ * - bps: |returnBps| >= thresholdBps
+ * - zscore: |zScore| >= thresholdZ (falls back to bps until vol is warm)
+ * - both: both conditions must hold
+ */
+export type MoveThresholdMode = 'bps' | 'zscore' | 'both';
+
+/**
+ * Move detector configuration
+ */
+export interface MoveDetectorConfig {
+    horizonsMs: number[];
+    thresholdBps: number;
+    thresholdZ: number;
+    thresholdMode: MoveThresholdMode;
+    sampleMs: number;
+    bufferCapacity: number;     // 0 = sized from longest horizon / sample interval
+    volWindowMs: number;
+    volMinSamples: number;
+}
+
+/**
+ * Squared log return between two consecutive samples
+ */
+interface VolSample {
+    tsLocal: number;
+    r2: number;
+    dtMs: number;
+}
+
+/**
+ * Rolling realized variance state for one symbol
+ */
+interface VolState {
+    samples: VolSample[];     // Oldest first (head index avoids O(n) shifts)
+    head: number;             // Index of the oldest sample inside the window
+    sumR2: number;
+    sumDtMs: number;
+}
+
+/**
+ * Multi-horizon return calculator with realized volatility
+ *
+ * Shared by every spot feed so venue adapters and the composite
+ * reference price use identical move semantics. Returns are computed
+ * over every configured horizon; each is also expressed as a z-score
+ * against realized vol scaled to that horizon, so the threshold can
+ * adapt to quiet vs. turbulent regimes.
+ */
+export class SpotMoveDetector {
+    // Price history for return calculation (symbol -> time-indexed ring)
+    private priceBuffer = new Map<string, TimeRingBuffer<SpotTick>>();
+
+    // Last sample time per symbol for downsampling
+    private lastSampleTime = new Map<string, number>();
+
+    // Realized variance per symbol
+    private volState = new Map<string, VolState>();
+
+    private readonly config: MoveDetectorConfig;
+    private readonly capacity: number;
+
+    constructor(config: Partial<MoveDetectorConfig> = {}) {
+        this.config = {
+            horizonsMs: config.horizonsMs ?? env.SPOT_RETURN_HORIZONS_MS,
+            thresholdBps: config.thresholdBps ?? env.SPOT_MOVE_THRESHOLD_BPS,
+            thresholdZ: config.thresholdZ ?? env.SPOT_MOVE_THRESHOLD_Z,
+            thresholdMode: config.thresholdMode ?? env.SPOT_MOVE_THRESHOLD_MODE,
+            sampleMs: config.sampleMs ?? env.SPOT_BUFFER_SAMPLE_MS,
+            bufferCapacity: config.bufferCapacity ?? env.SPOT_BUFFER_CAPACITY,
+            volWindowMs: config.volWindowMs ?? env.SPOT_VOL_WINDOW_MS,
+            volMinSamples: config.volMinSamples ?? env.SPOT_VOL_MIN_SAMPLES,
+        };
+
+        // Enough slots to span the longest horizon twice at the sample rate
+        const maxHorizonMs = Math.max(...this.config.horizonsMs);
+        this.capacity = this.config.bufferCapacity > 0
+            ? this.config.bufferCapacity
+            : Math.ceil(maxHorizonMs / this.config.sampleMs) * 2 + 16;
+    }
+
+    /**
+     * Add a tick and return the most significant move, if any horizon crosses
+     */
+    public update(tick: SpotTick): PriceReturn | null {
+        const { symbol, tsLocal } = tick;
+
+        // Downsampling: only add to buffer if enough time has passed
+        const lastSample = this.lastSampleTime.get(symbol) || 0;
+        const shouldSample = (tsLocal - lastSample) >= this.config.sampleMs;
+
+        if (shouldSample) {
+            this.lastSampleTime.set(symbol, tsLocal);
+
+            // Add to buffer (ring overwrites the oldest sample once full)
+            if (!this.priceBuffer.has(symbol)) {
+                this.priceBuffer.set(symbol, new TimeRingBuffer<SpotTick>(this.capacity));
+            }
+            const buffer = this.priceBuffer.get(symbol)!;
+            const previous = buffer.latest();
+            buffer.push(tsLocal, tick);
+
+            if (previous) {
+                this.updateVol(symbol, previous.value, tick);
+            }
+        }
+
+        let strongest: PriceReturn | null = null;
+        let strongestScore = 0;
+
+        for (const priceReturn of this.getReturns(tick)) {
+            if (!this.crossesThreshold(priceReturn)) {
+                continue;
+            }
+
+            // Rank crossings by how far past their threshold they are
+            const score = priceReturn.zScore !== null && this.config.thresholdMode !== 'bps'
+                ? Math.abs(priceReturn.zScore) / this.config.thresholdZ
+                : Math.abs(priceReturn.returnBps) / this.config.thresholdBps;
+
+            if (score > strongestScore) {
+                strongest = priceReturn;
+                strongestScore = score;
+            }
+        }
+
+        return strongest;
+    }
+
+    /**
+     * Returns over every horizon with enough history, ending at `current`
+     */
+    public getReturns(current: SpotTick): PriceReturn[] {
+        const buffer = this.priceBuffer.get(current.symbol);
+        if (!buffer || buffer.size <= 1) {
+            return [];
+        }
+
+        const returns: PriceReturn[] = [];
+
+        for (const horizonMs of this.config.horizonsMs) {
+            const past = (buffer.atOrBefore(current.tsLocal - horizonMs) ?? buffer.oldest()!).value;
+            const windowMs = current.tsLocal - past.tsLocal;
+
+            // Only use a horizon if window is within 80%-120% of it (plus one
+            // sample interval of slack), so a gap in the history after a
+            // reconnect or quiet period can't pass off a multi-minute
+            // return as a short-horizon move
+            if (windowMs < horizonMs * 0.8 || windowMs > horizonMs * 1.2 + this.config.sampleMs) {
+                continue;
+            }
+
+            returns.push(this.calculateReturn(current, past, horizonMs));
+        }
+
+        return returns;
+    }
+
+    /**
+     * Sampled price as of a timestamp (latest sample at or before ts)
+     */
+    public getPriceAt(symbol: string, ts: number): SpotTick | null {
+        return this.priceBuffer.get(symbol)?.atOrBefore(ts)?.value ?? null;
+    }
+
+    /**
+     * Sampled prices within [from, to], oldest first (for replay/analysis)
+     */
+    public getHistory(symbol: string, from: number, to: number): SpotTick[] {
+        return this.priceBuffer.get(symbol)?.range(from, to).map(e => e.value) ?? [];
+    }
+
+    /**
+     * Realized volatility estimate for a symbol
+     */
+    public getRealizedVol(symbol: string): RealizedVol | null {
+        const state = this.volState.get(symbol);
+        if (!state || state.samples.length - state.head < this.config.volMinSamples || state.sumDtMs <= 0) {
+            return null;
+        }
+
+        const variancePerMs = state.sumR2 / state.sumDtMs;
+
+        return {
+            symbol,
+            samples: state.samples.length - state.head,
+            windowMs: this.config.volWindowMs,
+            variancePerMs,
+            volPerSecondBps: Math.sqrt(variancePerMs * 1000) * 10000,
+            annualizedVol: Math.sqrt(variancePerMs * MS_PER_YEAR),
+        };
+    }
+
+    /**
+     * Drop a symbol's price history and vol state (e.g. once unsubscribed)
+     */
+    public reset(symbol: string): void {
+        this.priceBuffer.delete(symbol);
+        this.lastSampleTime.delete(symbol);
+        this.volState.delete(symbol);
+    }
+
+    /**
+     * Buffer sizes per symbol (for snapshot logging)
+     */
+    public getBufferSizes(): Record<string, number> {
+        return Object.fromEntries(
+            Array.from(this.priceBuffer.entries()).map(([sym, buf]) => [sym, buf.size])
+        );
+    }
+
+    /**
+     * Check a return against the configured threshold mode
+     */
+    private crossesThreshold(priceReturn: PriceReturn): boolean {
+        const bpsHit = Math.abs(priceReturn.returnBps) >= this.config.thresholdBps;
+
+        if (this.config.thresholdMode === 'bps' || priceReturn.zScore === null) {
+            return bpsHit;
+        }
+
+        const zHit = Math.abs(priceReturn.zScore) >= this.config.thresholdZ;
+
+        return this.config.thresholdMode === 'both' ? bpsHit && zHit : zHit;
+    }
+
+    /**
+     * Add the squared log return between consecutive samples
+     */
+    private updateVol(symbol: string, previous: SpotTick, current: SpotTick): void {
+        if (!this.volState.has(symbol)) {
+            this.volState.set(symbol, { samples: [], head: 0, sumR2: 0, sumDtMs: 0 });
+        }
+        const state = this.volState.get(symbol)!;
+
+        const dtMs = current.tsLocal - previous.tsLocal;
+        if (dtMs <= 0 || previous.price <= 0 || current.price <= 0) {
+            return;
+        }
+
+        const r = Math.log(current.price / previous.price);
+        const sample: VolSample = { tsLocal: current.tsLocal, r2: r * r, dtMs };
+
+        state.samples.push(sample);
+        state.sumR2 += sample.r2;
+        state.sumDtMs += sample.dtMs;
+
+        const cutoff = current.tsLocal - this.config.volWindowMs;
+        while (state.head < state.samples.length && state.samples[state.head].tsLocal < cutoff) {
+            const old = state.samples[state.head++];
+            state.sumR2 -= old.r2;
+            state.sumDtMs -= old.dtMs;
+        }
+
+        // Compact once the expired prefix dominates
+        if (state.head > 1024 && state.head * 2 > state.samples.length) {
+            state.samples.splice(0, state.head);
+            state.head = 0;
+        }
+    }
+
+    /**
+     * Calculate price return between two ticks
+     */
+    private calculateReturn(current: SpotTick, past: SpotTick, horizonMs: number): PriceReturn {
+        const returnRatio = (current.price / past.price) - 1;
+        const returnBps = returnRatio * 10000;
+        const windowMs = current.tsLocal - past.tsLocal;
+
+        // Scale realized vol to the actual window for a z-score
+        const vol = this.getRealizedVol(current.symbol);
+        let zScore: number | null = null;
+        let horizonVolBps: number | null = null;
+
+        if (vol && vol.variancePerMs > 0) {
+            const sigma = Math.sqrt(vol.variancePerMs * windowMs);
+            horizonVolBps = sigma * 10000;
+            zScore = Math.log(current.price / past.price) / sigma;
+        }
+
+        return {
+            symbol: current.symbol,
+            currentPrice: current.price,
+            pastPrice: past.price,
+            returnBps,
+            direction: returnBps > 0 ? 'up' : 'down',
+            windowMs,
+            horizonMs,
+            tsLocal: current.tsLocal,
+            zScore,
+            horizonVolBps,
+            variancePerMs: vol ? vol.variancePerMs : null,
+        };
+    }
+}
@@ -0,0 +1,120 @@
+import { logger } from '../../infra/logger.js';
+import { env } from '../../config/env.js';
+import { WsSpotFeed } from './ws_spot_feed.js';
+import { parseSymbolList, toOkxInstrument } from './symbols.js';
+import type { SpotTick, OkxTradeMessage, SpotFeedOptions } from './types.js';
+
+/**
+ * OKX drops connections idle for 30s; ping well inside that
+ */
+const OKX_PING_INTERVAL_MS = 20000;
+
+/**
+ * OKX v5 Public WebSocket Client (`trades` channel)
+ */
+export class OkxSpotFeed extends WsSpotFeed {
+    public readonly venue = 'okx' as const;
+
+    // Keepalive timer per socket (a replacement can overlap the active one)
+    private pingTimers = new Map<WebSocket, NodeJS.Timeout>();
+
+    // OKX instrument id -> canonical symbol
+    private readonly instToSymbol = new Map<string, string>();
+
+    constructor(symbols: string[] = parseSymbolList(env.SPOT_SYMBOLS), options: SpotFeedOptions = {}) {
+        super(symbols, options);
+
+        for (const symbol of this.symbols) {
+            this.instToSymbol.set(toOkxInstrument(symbol), symbol);
+        }
+    }
+
+    protected getUrl(): string {
+        return env.OKX_WS_BASE;
+    }
+
+    /**
+     * Subscribe to trades and start the keepalive ping
+     */
+    protected onOpen(ws: WebSocket): void {
+        ws.send(JSON.stringify({
+            op: 'subscribe',
+            args: Array.from(this.instToSymbol.keys()).map(instId => ({
+                channel: 'trades',
+                instId,
+            })),
+        }));
+
+        this.clearPing(ws);
+        this.pingTimers.set(ws, setInterval(() => {
+            if (ws.readyState === WebSocket.OPEN) {
+                ws.send('ping');
+            }
+        }, OKX_PING_INTERVAL_MS));
+    }
+
+    protected onClose(ws: WebSocket): void {
+        this.clearPing(ws);
+    }
+
+    public stop(): void {
+        for (const ws of Array.from(this.pingTimers.keys())) {
+            this.clearPing(ws);
+        }
+        super.stop();
+    }
+
+    /**
+     * Parse a trades channel message
+     */
+    protected parseMessage(message: string, tsLocal: number): SpotTick[] {
+        // Keepalive reply is plain text
+        if (message === 'pong') {
+            return [];
+        }
+
+        const parsed = JSON.parse(message) as OkxTradeMessage;
+
+        if (parsed.event === 'error') {
+            logger.error('spot.ws.venue_error', {
+                venue: this.venue,
+                message: parsed.msg,
+            });
+            return [];
+        }
+
+        if (parsed.arg?.channel !== 'trades' || !parsed.data) {
+            return [];
+        }
+
+        const ticks: SpotTick[] = [];
+
+        for (const trade of parsed.data) {
+            const symbol = this.instToSymbol.get(trade.instId);
+            if (!symbol) {
+                continue;
+            }
+
+            ticks.push({
+                venue: this.venue,
+                symbol,
+                price: parseFloat(trade.px),
+                size: parseFloat(trade.sz),
+                side: trade.side,
+                tradeId: parseInt(trade.tradeId, 10),
+                tsExchange: parseInt(trade.ts, 10),
+                tsLocal,
+            });
+        }
+
+        return ticks;
+    }
+
+    private clearPing(ws: WebSocket): void {
+        const timer = this.pingTimers.get(ws);
+        if (timer) {
+            clearInterval(timer);
+            this.pingTimers.delete(ws);
+        }
+    }
+}
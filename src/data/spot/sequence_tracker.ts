@@ -0,0 +1,88 @@
+import type { SpotVenue, TradeGap, TradeSequenceStats } from './types.js';
+
+/**
+ * Result of checking one trade id
+ */
+export type SequenceCheck =
+    | { status: 'first' | 'ok' }
+    | { status: 'gap'; gap: TradeGap }
+    | { status: 'out_of_order'; lastTradeId: number };
+
+/**
+ * Per-symbol trade id sequence tracker
+ *
+ * Assumes the venue assigns contiguous, increasing trade ids per symbol.
+ */
+export class TradeSequenceTracker {
+    private lastTradeId = new Map<string, number>();
+    private stats = new Map<string, TradeSequenceStats>();
+
+    constructor(private readonly venue: SpotVenue) {}
+
+    /**
+     * Check a trade id against the last one seen for the symbol
+     */
+    public check(symbol: string, tradeId: number, tsLocal: number): SequenceCheck {
+        const stats = this.getOrCreateStats(symbol);
+        const last = this.lastTradeId.get(symbol);
+
+        if (last === undefined) {
+            this.lastTradeId.set(symbol, tradeId);
+            return { status: 'first' };
+        }
+
+        if (tradeId <= last) {
+            stats.outOfOrder++;
+            return { status: 'out_of_order', lastTradeId: last };
+        }
+
+        this.lastTradeId.set(symbol, tradeId);
+
+        if (tradeId === last + 1) {
+            return { status: 'ok' };
+        }
+
+        const gap: TradeGap = {
+            venue: this.venue,
+            symbol,
+            fromId: last + 1,
+            toId: tradeId - 1,
+            missing: tradeId - last - 1,
+            tsLocal,
+        };
+
+        stats.gaps++;
+        stats.missingTrades += gap.missing;
+        stats.lastGapAt = tsLocal;
+
+        return { status: 'gap', gap };
+    }
+
+    /**
+     * Forget a symbol's last trade id and counters (trades missed while
+     * unsubscribed are not a gap)
+     */
+    public reset(symbol: string): void {
+        this.lastTradeId.delete(symbol);
+        this.stats.delete(symbol);
+    }
+
+    /**
+     * Counters for a symbol
+     */
+    public getStats(symbol: string): TradeSequenceStats {
+        return { ...this.getOrCreateStats(symbol) };
+    }
+
+    private getOrCreateStats(symbol: string): TradeSequenceStats {
+        if (!this.stats.has(symbol)) {
+            this.stats.set(symbol, {
+                gaps: 0,
+                missingTrades: 0,
+                outOfOrder: 0,
+                lastGapAt: null,
+            });
+        }
+        return this.stats.get(symbol)!;
+    }
+}
@@ -0,0 +1,48 @@
+import { env } from '../../config/env.js';
+import { BinanceSpotFeed } from './binance_ws.js';
+import { CoinbaseSpotFeed } from './coinbase_ws.js';
+import { KrakenSpotFeed } from './kraken_ws.js';
+import { OkxSpotFeed } from './okx_ws.js';
+import { CompositeSpotFeed } from './composite_feed.js';
+import { parseSymbolList } from './symbols.js';
+import type { SpotFeed, SpotFeedOptions, SpotVenue } from './types.js';
+
+/**
+ * Create a single venue feed
+ */
+export function createVenueFeed(
+    venue: Exclude<SpotVenue, 'composite'>,
+    symbols: string[],
+    options: SpotFeedOptions = {}
+): SpotFeed {
+    switch (venue) {
+        case 'binance':
+            return new BinanceSpotFeed(symbols, options);
+        case 'coinbase':
+            return new CoinbaseSpotFeed(symbols, options);
+        case 'kraken':
+            return new KrakenSpotFeed(symbols, options);
+        case 'okx':
+            return new OkxSpotFeed(symbols, options);
+    }
+}
+
+/**
+ * Create the spot feed from config
+ *
+ * One venue returns that venue's feed directly; several venues are
+ * wrapped in a CompositeSpotFeed which alone emits `move` events.
+ * Venue feeds keep SPOT_PRICE_SOURCE so Binance streams its book when
+ * the composite blends mid/microprice.
+ */
+export function createSpotFeed(): SpotFeed {
+    const symbols = parseSymbolList(env.SPOT_SYMBOLS);
+    const venues = env.SPOT_VENUES;
+
+    if (venues.length === 1) {
+        return createVenueFeed(venues[0], symbols);
+    }
+
+    const feeds = venues.map(venue => createVenueFeed(venue, symbols, { detectMoves: false }));
+    return new CompositeSpotFeed(feeds);
+}
@@ -0,0 +1,73 @@
+/**
+ * Known quote assets, longest first so USDT wins over USD
+ */
+const QUOTE_ASSETS = ['USDT', 'USDC', 'BUSD', 'FDUSD', 'USD', 'EUR', 'BTC', 'ETH'];
+
+/**
+ * Canonical symbol split into base and quote
+ */
+export interface SymbolParts {
+    base: string;
+    quote: string;
+}
+
+/**
+ * Split a canonical (Binance-style) symbol like BTCUSDT into base/quote
+ */
+export function splitSymbol(symbol: string): SymbolParts {
+    const upper = symbol.toUpperCase();
+
+    for (const quote of QUOTE_ASSETS) {
+        if (upper.length > quote.length && upper.endsWith(quote)) {
+            return {
+                base: upper.slice(0, upper.length - quote.length),
+                quote,
+            };
+        }
+    }
+
+    throw new Error(`Unrecognized spot symbol: ${symbol}`);
+}
+
+/**
+ * Map stablecoin quotes to USD for venues whose liquid books are USD-quoted
+ */
+function toFiatQuote(quote: string): string {
+    return quote === 'USDT' || quote === 'USDC' || quote === 'BUSD' || quote === 'FDUSD'
+        ? 'USD'
+        : quote;
+}
+
+/**
+ * Canonical symbol -> Coinbase product id (BTCUSDT -> BTC-USD)
+ */
+export function toCoinbaseProduct(symbol: string): string {
+    const { base, quote } = splitSymbol(symbol);
+    return `${base}-${toFiatQuote(quote)}`;
+}
+
+/**
+ * Canonical symbol -> Kraken v2 pair (BTCUSDT -> BTC/USD)
+ */
+export function toKrakenPair(symbol: string): string {
+    const { base, quote } = splitSymbol(symbol);
+    return `${base}/${toFiatQuote(quote)}`;
+}
+
+/**
+ * Canonical symbol -> OKX instrument id (BTCUSDT -> BTC-USDT)
+ */
+export function toOkxInstrument(symbol: string): string {
+    const { base, quote } = splitSymbol(symbol);
+    return `${base}-${quote}`;
+}
+
+/**
+ * Parse the configured SPOT_SYMBOLS CSV into canonical symbols
+ */
+export function parseSymbolList(csv: string): string[] {
+    return csv
+        .split(',')
+        .map(s => s.trim().toUpperCase())
+        .filter(s => s.length > 0);
+}
@@ -0,0 +1,188 @@
+import { env } from '../../config/env.js';
+import type { SpotTick, SpotVenue, TradeFlowStats } from './types.js';
+
+/**
+ * Single trade contributing to flow windows
+ */
+interface FlowSample {
+    tsLocal: number;
+    size: number;
+    notional: number;
+    side?: 'buy' | 'sell';
+}
+
+/**
+ * Running sums for one window
+ */
+interface WindowSums {
+    head: number;             // Index of the oldest sample inside the window
+    trades: number;
+    volume: number;
+    notional: number;
+    buyVolume: number;
+    sellVolume: number;
+}
+
+/**
+ * Per-symbol flow state: one shared sample log, sums per window
+ */
+interface SymbolFlow {
+    samples: FlowSample[];
+    windows: WindowSums[];
+}
+
+/**
+ * Rolling trade flow tracker (VWAP, volume, aggressor imbalance)
+ *
+ * Every window reads the same sample log through its own head index,
+ * so adding a trade and expiring old ones is O(1) amortized.
+ */
+export class TradeFlowTracker {
+    private flows = new Map<string, SymbolFlow>();
+    private readonly windowsMs: number[];
+
+    constructor(
+        private readonly venue: SpotVenue,
+        windowsMs: number[] = env.SPOT_FLOW_WINDOWS_MS
+    ) {
+        this.windowsMs = [...windowsMs].sort((a, b) => a - b);
+    }
+
+    /**
+     * Record a trade (ticks without size are ignored)
+     */
+    public record(tick: SpotTick): void {
+        if (tick.size === undefined || !(tick.size > 0)) {
+            return;
+        }
+
+        if (!this.flows.has(tick.symbol)) {
+            this.flows.set(tick.symbol, {
+                samples: [],
+                windows: this.windowsMs.map(() => ({
+                    head: 0,
+                    trades: 0,
+                    volume: 0,
+                    notional: 0,
+                    buyVolume: 0,
+                    sellVolume: 0,
+                })),
+            });
+        }
+
+        const flow = this.flows.get(tick.symbol)!;
+        const sample: FlowSample = {
+            tsLocal: tick.tsLocal,
+            size: tick.size,
+            notional: tick.size * tick.price,
+            side: tick.side,
+        };
+
+        flow.samples.push(sample);
+        for (const sums of flow.windows) {
+            this.apply(sums, sample, 1);
+        }
+
+        this.expire(flow, tick.tsLocal);
+    }
+
+    /**
+     * Flow stats for every window
+     */
+    public getStats(symbol: string, now: number = Date.now()): TradeFlowStats[] {
+        const flow = this.flows.get(symbol);
+        if (!flow) {
+            return [];
+        }
+
+        this.expire(flow, now);
+
+        return flow.windows.map((sums, i) => {
+            const aggressed = sums.buyVolume + sums.sellVolume;
+
+            return {
+                venue: this.venue,
+                symbol,
+                windowMs: this.windowsMs[i],
+                trades: sums.trades,
+                volume: sums.volume,
+                notional: sums.notional,
+                vwap: sums.volume > 0 ? sums.notional / sums.volume : null,
+                buyVolume: sums.buyVolume,
+                sellVolume: sums.sellVolume,
+                imbalance: aggressed > 0 ? (sums.buyVolume - sums.sellVolume) / aggressed : 0,
+            };
+        });
+    }
+
+    /**
+     * Flow stats for the smallest window covering `windowMs` (else the largest)
+     */
+    public getStatsFor(symbol: string, windowMs: number, now: number = Date.now()): TradeFlowStats | null {
+        const stats = this.getStats(symbol, now);
+        if (stats.length === 0) {
+            return null;
+        }
+
+        return stats.find(s => s.windowMs >= windowMs) ?? stats[stats.length - 1];
+    }
+
+    /**
+     * Drop a symbol's trades
+     */
+    public reset(symbol: string): void {
+        this.flows.delete(symbol);
+    }
+
+    /**
+     * Symbols with recorded trades
+     */
+    public getSymbols(): string[] {
+        return Array.from(this.flows.keys());
+    }
+
+    /**
+     * Advance each window's head past expired samples, then compact
+     */
+    private expire(flow: SymbolFlow, now: number): void {
+        flow.windows.forEach((sums, i) => {
+            const cutoff = now - this.windowsMs[i];
+            while (sums.head < flow.samples.length && flow.samples[sums.head].tsLocal < cutoff) {
+                this.apply(sums, flow.samples[sums.head], -1);
+                sums.head++;
+            }
+
+            // Reset accumulated float drift once the window is empty
+            if (sums.trades === 0) {
+                sums.volume = 0;
+                sums.notional = 0;
+                sums.buyVolume = 0;
+                sums.sellVolume = 0;
+            }
+        });
+
+        // Longest window has the smallest head; drop what no window needs
+        const minHead = Math.min(...flow.windows.map(w => w.head));
+        if (minHead > 1024 && minHead * 2 > flow.samples.length) {
+            flow.samples.splice(0, minHead);
+            for (const sums of flow.windows) {
+                sums.head -= minHead;
+            }
+        }
+    }
+
+    /**
+     * Add (sign = 1) or remove (sign = -1) a sample from window sums
+     */
+    private apply(sums: WindowSums, sample: FlowSample, sign: 1 | -1): void {
+        sums.trades += sign;
+        sums.volume += sign * sample.size;
+        sums.notional += sign * sample.notional;
+
+        if (sample.side === 'buy') {
+            sums.buyVolume += sign * sample.size;
+        } else if (sample.side === 'sell') {
+            sums.sellVolume += sign * sample.size;
+        }
+    }
+}
@@ -1,13 +1,46 @@
+/**
+ * Spot venues with a feed adapter ('composite' = blended reference price)
+ */
+export type SpotVenue = 'binance' | 'coinbase' | 'kraken' | 'okx' | 'composite';
+
 /**
  * Normalized spot tick data
  */
 export interface SpotTick {
-    symbol: string;           // BTCUSDT, ETHUSDT
+    venue: SpotVenue;         // Source venue
+    symbol: string;           // BTCUSDT, ETHUSDT (canonical, Binance-style)
     price: number;            // Current price
+    size?: number;            // Traded quantity (base asset), if known
+    side?: 'buy' | 'sell';    // Aggressor (taker) side, if known
+    tradeId?: number;         // Venue trade id, if numeric
     tsExchange: number;       // Exchange timestamp (ms)
     tsLocal: number;          // Local timestamp (ms)
 }
 
+/**
+ * Price series used for return calculation
+ */
+export type SpotPriceSource = 'trade' | 'mid' | 'microprice';
+
+/**
+ * Normalized top-of-book quote
+ */
+export interface SpotQuote {
+    venue: SpotVenue;
+    symbol: string;
+    source: 'bookTicker' | 'depth';
+    bidPrice: number;
+    bidSize: number;
+    askPrice: number;
+    askSize: number;
+    midPrice: number;         // (bid + ask) / 2
+    microPrice: number;       // Size-weighted: (bid * askSize + ask * bidSize) / (bidSize + askSize)
+    bidDepth?: number;        // Total bid quantity across received levels (depth only)
+    askDepth?: number;        // Total ask quantity across received levels (depth only)
+    tsExchange: number;       // Exchange timestamp (ms), local time if venue omits it
+    tsLocal: number;          // Local timestamp (ms)
+}
+
 /**
  * Price return calculation
  */
@@ -17,7 +50,85 @@ export interface PriceReturn {
     pastPrice: number;
     returnBps: number;        // Basis points (0.50% = 50 bps)
     direction: 'up' | 'down';
+    windowMs: number;         // Actual window between the two samples
+    horizonMs: number;        // Configured horizon that produced this return
+    tsLocal: number;          // Local timestamp of the current sample
+    zScore: number | null;    // Log return / realized vol over window (null until vol is warm)
+    horizonVolBps: number | null; // Realized vol scaled to the window, in bps
+    variancePerMs: number | null; // Realized log-return variance per ms (null until vol is warm)
+    flow?: TradeFlowStats | null; // Trade flow over the window closest to this move
+}
+
+/**
+ * Rolling trade flow over one window
+ */
+export interface TradeFlowStats {
+    venue: SpotVenue;
+    symbol: string;
+    windowMs: number;
+    trades: number;
+    volume: number;           // Base asset quantity
+    notional: number;         // Quote asset value
+    vwap: number | null;
+    buyVolume: number;        // Aggressive buys
+    sellVolume: number;       // Aggressive sells
+    imbalance: number;        // (buy - sell) / (buy + sell), in [-1, 1]
+}
+
+/**
+ * Missing range of trade ids detected in a stream
+ */
+export interface TradeGap {
+    venue: SpotVenue;
+    symbol: string;
+    fromId: number;           // First missing id (inclusive)
+    toId: number;             // Last missing id (inclusive)
+    missing: number;
+    tsLocal: number;
+}
+
+/**
+ * Trade id sequence integrity counters for one symbol
+ */
+export interface TradeSequenceStats {
+    gaps: number;
+    missingTrades: number;
+    outOfOrder: number;       // Duplicate or late trades (dropped)
+    lastGapAt: number | null;
+}
+
+/**
+ * Rolling realized volatility estimate
+ */
+export interface RealizedVol {
+    symbol: string;
+    samples: number;
+    windowMs: number;
+    variancePerMs: number;    // Variance of log returns per ms
+    volPerSecondBps: number;  // 1-second sigma in bps
+    annualizedVol: number;    // Annualized sigma (0.5 = 50%)
+}
+
+/**
+ * Rolling exchange-to-local latency summary for one symbol
+ */
+export interface LatencyStats {
+    venue: SpotVenue;
+    symbol: string;
+    samples: number;
     windowMs: number;
+    minMs: number;
+    p50Ms: number;
+    p90Ms: number;
+    p99Ms: number;
+    maxMs: number;
+    meanMs: number;
+    clockOffsetMs: number;    // Min-filtered latency: clock skew + baseline network delay
+    adjustedP50Ms: number;    // p50 minus clock offset (queueing above baseline)
+    adjustedP90Ms: number;
+    adjustedP99Ms: number;
+    histogram: Record<string, number>;  // Bucket upper bound (ms) -> count
+    degraded: boolean;
 }
 
 /**
@@ -34,10 +145,148 @@ export interface BinanceTradeEvent {
     m: boolean;     // Is buyer maker
 }
 
+/**
+ * Binance Book Ticker Stream Event (no event time on spot)
+ */
+export interface BinanceBookTickerEvent {
+    u: number;      // Order book update ID
+    s: string;      // Symbol (uppercase: BTCUSDT)
+    b: string;      // Best bid price
+    B: string;      // Best bid quantity
+    a: string;      // Best ask price
+    A: string;      // Best ask quantity
+}
+
+/**
+ * Binance Partial Book Depth Stream Event
+ */
+export interface BinanceDepthEvent {
+    lastUpdateId: number;
+    bids: [string, string][];   // [price, quantity], best first
+    asks: [string, string][];   // [price, quantity], best first
+}
+
+/**
+ * Binance WebSocket control response (SUBSCRIBE / UNSUBSCRIBE ack)
+ */
+export interface BinanceControlResponse {
+    id: number;
+    result?: unknown;
+    error?: {
+        code: number;
+        msg: string;
+    };
+}
+
 /**
  * Binance WebSocket Stream Message
  */
 export interface BinanceStreamMessage {
     stream: string;
-    data: BinanceTradeEvent;
+    data: BinanceTradeEvent | BinanceBookTickerEvent | BinanceDepthEvent;
+}
+
+/**
+ * Events emitted by spot feeds
+ */
+export type SpotFeedEvents = {
+    tick: [SpotTick];
+    quote: [SpotQuote];
+    move: [PriceReturn];
+    latency: [LatencyStats];
+    flow: [TradeFlowStats];
+    gap: [TradeGap];
+};
+
+/**
+ * Common interface implemented by every spot feed
+ */
+export interface SpotFeed {
+    readonly venue: SpotVenue;
+    start(): void;
+    stop(): void;
+    getRealizedVol(symbol: string): RealizedVol | null;
+    getPriceAt(symbol: string, ts: number): SpotTick | null;
+    isStale(symbol: string): boolean;
+    // Live subscription changes, for feeds that support them
+    subscribe?(symbol: string): Promise<void>;
+    unsubscribe?(symbol: string): Promise<void>;
+    on<K extends keyof SpotFeedEvents & string>(event: K, listener: (...args: SpotFeedEvents[K]) => void): this;
+    off<K extends keyof SpotFeedEvents & string>(event: K, listener: (...args: SpotFeedEvents[K]) => void): this;
+    removeAllListeners(): this;
+}
+
+/**
+ * Spot feed that supports live subscription changes
+ */
+export type DynamicSpotFeed = SpotFeed & Required<Pick<SpotFeed, 'subscribe' | 'unsubscribe'>>;
+
+/**
+ * True if the feed can add and drop symbols while running
+ */
+export function supportsSubscriptions(feed: SpotFeed): feed is DynamicSpotFeed {
+    return typeof feed.subscribe === 'function' && typeof feed.unsubscribe === 'function';
+}
+
+/**
+ * Spot feed construction options
+ */
+export interface SpotFeedOptions {
+    // Emit `move` events from this feed (disabled for composite children)
+    detectMoves?: boolean;
+    // Series driving move detection (default: SPOT_PRICE_SOURCE)
+    priceSource?: SpotPriceSource;
+}
+
+/**
+ * Coinbase Exchange `matches` channel message
+ */
+export interface CoinbaseMatchMessage {
+    type: string;           // match, last_match, subscriptions, error
+    product_id?: string;    // BTC-USD
+    trade_id?: number;
+    price?: string;
+    size?: string;
+    side?: 'buy' | 'sell';  // Maker side
+    time?: string;          // ISO timestamp
+    message?: string;       // Error message
+}
+
+/**
+ * Kraken v2 `trade` channel message
+ */
+export interface KrakenTradeMessage {
+    channel?: string;       // trade, heartbeat, status
+    type?: string;          // snapshot, update
+    method?: string;        // subscribe (ack)
+    success?: boolean;
+    error?: string;
+    data?: Array<{
+        symbol: string;     // BTC/USD
+        side: 'buy' | 'sell';
+        price: number;
+        qty: number;
+        trade_id: number;
+        timestamp: string;  // ISO timestamp
+    }>;
+}
+
+/**
+ * OKX v5 `trades` channel message
+ */
+export interface OkxTradeMessage {
+    event?: string;         // subscribe, error
+    msg?: string;
+    arg?: {
+        channel: string;
+        instId: string;
+    };
+    data?: Array<{
+        instId: string;     // BTC-USDT
+        tradeId: string;
+        px: string;
+        sz: string;
+        side: 'buy' | 'sell';
+        ts: string;         // Epoch ms as string
+    }>;
 }
@@ -0,0 +1,930 @@
+import { logger } from '../../infra/logger.js';
+import { env } from '../../config/env.js';
+import { TypedEventEmitter } from '../../infra/typed_emitter.js';
+import { SpotMoveDetector } from './move_detector.js';
+import { LatencyTracker } from './latency_tracker.js';
+import { TradeFlowTracker } from './trade_flow.js';
+import { TradeSequenceTracker } from './sequence_tracker.js';
+import type {
+    LatencyStats,
+    RealizedVol,
+    SpotFeed,
+    SpotFeedEvents,
+    SpotFeedOptions,
+    SpotPriceSource,
+    SpotQuote,
+    SpotTick,
+    SpotVenue,
+    TradeFlowStats,
+    TradeGap,
+    TradeSequenceStats,
+} from './types.js';
+
+/**
+ * Staleness watchdog check interval
+ */
+const WATCHDOG_INTERVAL_MS = 1000;
+
+/**
+ * Base class for venue WebSocket spot feeds
+ *
+ * Owns the connection lifecycle (connect, backoff reconnect, decoding,
+ * staleness watchdog), move detection and snapshot logging. Adapters only describe the
+ * venue protocol: URL, subscribe messages and trade/quote parsing.
+ *
+ * Moves are detected on trades or on the quote mid/microprice,
+ * depending on the configured price source. Trade timestamps feed a
+ * rolling latency tracker summarized periodically as `spot.latency`;
+ * trade size and aggressor side feed rolling flow windows (`spot.flow`).
+ * Venues with contiguous trade ids are checked for gaps (`spot.gap`) and
+ * late/duplicate trades, which are dropped.
+ *
+ * A watchdog replaces connections that go silent, whose symbols stop
+ * updating, or that reach the venue's maximum connection age. The
+ * replacement is opened before the old socket is dropped and takes
+ * over on its first message, so a planned rotation leaves no gap. A
+ * replacement that stays silent for SPOT_STALE_CONNECTION_MS is dropped
+ * along with the old socket, falling back to a plain reconnect.
+ */
+export abstract class WsSpotFeed extends TypedEventEmitter<SpotFeedEvents> implements SpotFeed {
+    public abstract readonly venue: SpotVenue;
+
+    protected ws: WebSocket | null = null;
+    // Replacement socket opened before the active one is dropped
+    private pendingWs: WebSocket | null = null;
+    private pendingTimer: NodeJS.Timeout | null = null;
+    private reconnectAttempt = 0;
+    private reconnectTimer: NodeJS.Timeout | null = null;
+    private snapshotTimer: NodeJS.Timeout | null = null;
+    private latencyTimer: NodeJS.Timeout | null = null;
+    private flowTimer: NodeJS.Timeout | null = null;
+    private watchdogTimer: NodeJS.Timeout | null = null;
+    protected isShuttingDown = false;
+
+    // Connection-level staleness state
+    private startedAt = 0;
+    private connectedAt = 0;
+    private lastMessageAt = 0;
+    private lastReplaceAttemptAt = 0;
+
+    // Last trade or quote time per symbol, and symbols currently stale
+    private lastDataAt = new Map<string, number>();
+    private staleSymbols = new Set<string>();
+
+    // Latest price per symbol
+    private latestPrice = new Map<string, number>();
+
+    // Latest top-of-book quote per symbol
+    private latestQuote = new Map<string, SpotQuote>();
+
+    private readonly moveDetector: SpotMoveDetector | null;
+    private latencyTracker: LatencyTracker | null = null;
+    private flowTracker: TradeFlowTracker | null = null;
+    private sequenceTracker: TradeSequenceTracker | null = null;
+
+    // Symbols whose return window spans a trade gap, until it refills
+    private unreliableUntil = new Map<string, number>();
+    protected readonly priceSource: SpotPriceSource;
+    // Currently subscribed symbols (mutable for adapters with live subscriptions)
+    protected readonly symbols: string[];
+    private readonly textDecoder = new TextDecoder();
+
+    constructor(symbols: string[], options: SpotFeedOptions = {}) {
+        super();
+        this.symbols = [...symbols];
+        this.moveDetector = options.detectMoves === false ? null : new SpotMoveDetector();
+        this.priceSource = options.priceSource ?? env.SPOT_PRICE_SOURCE;
+    }
+
+    /**
+     * WebSocket URL to connect to
+     */
+    protected abstract getUrl(): string;
+
+    /**
+     * Parse a raw text message into zero or more ticks
+     * (adapters that stream quotes hand them to processQuote directly)
+     */
+    protected abstract parseMessage(message: string, tsLocal: number): SpotTick[];
+
+    /**
+     * Hook called once the socket is open (send subscriptions here)
+     */
+    protected onOpen(_ws: WebSocket): void {
+        // Default: nothing to send (stream selected via URL)
+    }
+
+    /**
+     * Hook called when a replacement socket becomes the active one
+     */
+    protected onHandover(_ws: WebSocket): void {
+        // Default: nothing to carry over (the URL selects every stream)
+    }
+
+    /**
+     * Hook called when a socket closes (active, replacement or retired)
+     */
+    protected onClose(_ws: WebSocket): void {
+        // Default: nothing to clean up
+    }
+
+    /**
+     * Whether trade ids are contiguous per symbol (enables gap detection)
+     */
+    protected hasContiguousTradeIds(): boolean {
+        return false;
+    }
+
+    /**
+     * Venue-enforced maximum connection lifetime (null = none)
+     */
+    protected getMaxConnectionAgeMs(): number | null {
+        return null;
+    }
+
+    /**
+     * Start the WebSocket connection
+     */
+    public start(): void {
+        this.isShuttingDown = false;
+        this.startedAt = Date.now();
+        this.connect();
+        this.startSnapshotTimer();
+        this.startLatencyTimer();
+        this.startFlowTimer();
+        this.startWatchdog();
+    }
+
+    /**
+     * Stop the WebSocket connection and cleanup
+     */
+    public stop(): void {
+        this.isShuttingDown = true;
+
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = null;
+        }
+
+        if (this.snapshotTimer) {
+            clearInterval(this.snapshotTimer);
+            this.snapshotTimer = null;
+        }
+
+        if (this.latencyTimer) {
+            clearInterval(this.latencyTimer);
+            this.latencyTimer = null;
+        }
+
+        if (this.flowTimer) {
+            clearInterval(this.flowTimer);
+            this.flowTimer = null;
+        }
+
+        if (this.watchdogTimer) {
+            clearInterval(this.watchdogTimer);
+            this.watchdogTimer = null;
+        }
+
+        this.clearPendingTimer();
+        if (this.pendingWs) {
+            const pending = this.pendingWs;
+            this.pendingWs = null;
+            pending.close();
+        }
+
+        if (this.ws) {
+            const active = this.ws;
+            this.ws = null;
+            active.close();
+        }
+    }
+
+    /**
+     * Currently subscribed symbols
+     */
+    public getSymbols(): string[] {
+        return [...this.symbols];
+    }
+
+    /**
+     * True if the connection or the symbol has gone silent
+     */
+    public isStale(symbol: string): boolean {
+        if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+            return true;
+        }
+
+        const now = Date.now();
+
+        if (now - this.lastMessageAt > env.SPOT_STALE_CONNECTION_MS) {
+            return true;
+        }
+
+        const lastData = this.lastDataAt.get(symbol);
+        return lastData === undefined || now - lastData > env.SPOT_STALE_SYMBOL_MS;
+    }
+
+    /**
+     * Latest price for a symbol, if any tick has been seen
+     */
+    public getLatestPrice(symbol: string): number | undefined {
+        return this.latestPrice.get(symbol);
+    }
+
+    /**
+     * Realized volatility for a symbol (null until warm or if moves are disabled)
+     */
+    public getRealizedVol(symbol: string): RealizedVol | null {
+        return this.moveDetector?.getRealizedVol(symbol) ?? null;
+    }
+
+    /**
+     * Sampled price as of a timestamp (null if moves are disabled)
+     */
+    public getPriceAt(symbol: string, ts: number): SpotTick | null {
+        return this.moveDetector?.getPriceAt(symbol, ts) ?? null;
+    }
+
+    /**
+     * Current latency summary for a symbol
+     */
+    public getLatencyStats(symbol: string): LatencyStats | null {
+        return this.getLatencyTracker().getStats(symbol);
+    }
+
+    /**
+     * Current trade flow for a symbol, one entry per configured window
+     */
+    public getFlowStats(symbol: string): TradeFlowStats[] {
+        return this.getFlowTracker().getStats(symbol);
+    }
+
+    /**
+     * Trade id gap / out-of-order counters for a symbol
+     */
+    public getSequenceStats(symbol: string): TradeSequenceStats {
+        return this.getSequenceTracker().getStats(symbol);
+    }
+
+    /**
+     * True while the symbol's return window still spans a trade gap
+     */
+    public isWindowUnreliable(symbol: string, now: number = Date.now()): boolean {
+        const until = this.unreliableUntil.get(symbol);
+        return until !== undefined && now < until;
+    }
+
+    /**
+     * Latest top-of-book quote for a symbol, if the venue streams quotes
+     */
+    public getLatestQuote(symbol: string): SpotQuote | undefined {
+        return this.latestQuote.get(symbol);
+    }
+
+    /**
+     * Connect to the venue WebSocket (initial connect and reconnects)
+     */
+    private connect(): void {
+        const ws = this.openSocket();
+
+        if (ws) {
+            this.ws = ws;
+        } else if (!this.isShuttingDown) {
+            this.scheduleReconnect();
+        }
+    }
+
+    /**
+     * Open a socket; handlers route by whether it is active, pending or retired
+     */
+    private openSocket(): WebSocket | null {
+        const url = this.getUrl();
+
+        try {
+            const ws = new WebSocket(url);
+
+            ws.onopen = () => {
+                const now = Date.now();
+
+                if (ws === this.ws) {
+                    this.reconnectAttempt = 0;
+                    this.connectedAt = now;
+                    this.lastMessageAt = now;
+                }
+
+                logger.info('spot.ws.connected', {
+                    venue: this.venue,
+                    symbols: this.symbols,
+                    url,
+                    replacement: ws === this.pendingWs,
+                });
+                this.onOpen(ws);
+            };
+
+            ws.onmessage = (event) => {
+                // First message on the replacement: take over from the old socket
+                if (ws === this.pendingWs) {
+                    this.promotePending();
+                }
+
+                // Retired socket still draining
+                if (ws !== this.ws) {
+                    return;
+                }
+
+                this.lastMessageAt = Date.now();
+                this.handleMessage(event.data);
+            };
+
+            ws.onerror = (error) => {
+                logger.error('spot.ws.error', {
+                    venue: this.venue,
+                    error: String(error),
+                });
+            };
+
+            ws.onclose = () => {
+                this.onClose(ws);
+
+                if (ws === this.pendingWs) {
+                    this.pendingWs = null;
+                    this.clearPendingTimer();
+                    logger.warn('spot.ws.replacement_failed', {
+                        venue: this.venue,
+                    });
+                    return;
+                }
+
+                if (ws !== this.ws) {
+                    logger.debug('spot.ws.retired', {
+                        venue: this.venue,
+                    });
+                    return;
+                }
+
+                logger.warn('spot.ws.disconnected', {
+                    venue: this.venue,
+                    reconnectAttempt: this.reconnectAttempt,
+                });
+
+                this.ws = null;
+
+                if (this.isShuttingDown) {
+                    return;
+                }
+
+                // A replacement in progress becomes the active socket
+                if (this.pendingWs) {
+                    this.ws = this.pendingWs;
+                    this.pendingWs = null;
+                    this.clearPendingTimer();
+                    this.connectedAt = Date.now();
+                    this.onHandover(this.ws);
+                    return;
+                }
+
+                this.scheduleReconnect();
+            };
+
+            return ws;
+        } catch (error) {
+            logger.error('spot.ws.connection_failed', {
+                venue: this.venue,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return null;
+        }
+    }
+
+    /**
+     * Start tracking a symbol (used by live subscriptions)
+     */
+    protected addSymbol(symbol: string): void {
+        if (!this.symbols.includes(symbol)) {
+            this.symbols.push(symbol);
+            // Staleness clock starts now, not at feed start
+            this.lastDataAt.set(symbol, Date.now());
+        }
+    }
+
+    /**
+     * Stop tracking a symbol and drop its per-symbol state, so a later
+     * resubscribe starts from fresh history
+     */
+    protected removeSymbol(symbol: string): void {
+        const index = this.symbols.indexOf(symbol);
+        if (index >= 0) {
+            this.symbols.splice(index, 1);
+        }
+
+        this.latestPrice.delete(symbol);
+        this.latestQuote.delete(symbol);
+        this.lastDataAt.delete(symbol);
+        this.staleSymbols.delete(symbol);
+        this.unreliableUntil.delete(symbol);
+
+        this.moveDetector?.reset(symbol);
+        this.latencyTracker?.reset(symbol);
+        this.flowTracker?.reset(symbol);
+        this.sequenceTracker?.reset(symbol);
+    }
+
+    /**
+     * Open a replacement connection; the old one is closed once it delivers
+     */
+    private replaceConnection(reason: string): void {
+        if (!this.ws || this.pendingWs || this.isShuttingDown) {
+            return;
+        }
+
+        // Rate-limit replacements so a dead network doesn't spin
+        const now = Date.now();
+        if (now - this.lastReplaceAttemptAt < env.SPOT_STALE_CONNECTION_MS) {
+            return;
+        }
+        this.lastReplaceAttemptAt = now;
+
+        logger.warn('spot.ws.replacing', {
+            venue: this.venue,
+            reason,
+            connectionAgeMs: now - this.connectedAt,
+            silentMs: now - this.lastMessageAt,
+        });
+
+        this.pendingWs = this.openSocket();
+
+        if (this.pendingWs) {
+            this.pendingTimer = setTimeout(() => this.abandonPending(), env.SPOT_STALE_CONNECTION_MS);
+        }
+    }
+
+    /**
+     * Drop a replacement that never delivered and reconnect from scratch
+     */
+    private abandonPending(): void {
+        this.pendingTimer = null;
+
+        const pending = this.pendingWs;
+        if (!pending) {
+            return;
+        }
+
+        logger.warn('spot.ws.replacement_timeout', {
+            venue: this.venue,
+            timeoutMs: env.SPOT_STALE_CONNECTION_MS,
+        });
+
+        this.pendingWs = null;
+        pending.close();
+
+        // Closing the active socket schedules a normal reconnect
+        this.ws?.close();
+    }
+
+    /**
+     * Cancel the replacement timeout
+     */
+    private clearPendingTimer(): void {
+        if (this.pendingTimer) {
+            clearTimeout(this.pendingTimer);
+            this.pendingTimer = null;
+        }
+    }
+
+    /**
+     * Make the pending socket active and close the old one
+     */
+    private promotePending(): void {
+        const old = this.ws;
+        const next = this.pendingWs;
+        const now = Date.now();
+
+        if (!next) {
+            return;
+        }
+
+        this.ws = next;
+        this.pendingWs = null;
+        this.clearPendingTimer();
+        this.reconnectAttempt = 0;
+        this.connectedAt = now;
+        this.lastMessageAt = now;
+
+        logger.info('spot.ws.handover', {
+            venue: this.venue,
+        });
+
+        this.onHandover(next);
+
+        if (old) {
+            old.close();
+        }
+    }
+
+    /**
+     * Periodically check connection and per-symbol silence
+     */
+    private startWatchdog(): void {
+        this.watchdogTimer = setInterval(() => {
+            const now = Date.now();
+
+            if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+                if (now - this.lastMessageAt > env.SPOT_STALE_CONNECTION_MS) {
+                    this.replaceConnection('stale_connection');
+                }
+
+                const maxAgeMs = this.getMaxConnectionAgeMs();
+                if (maxAgeMs !== null && now - this.connectedAt > maxAgeMs) {
+                    this.replaceConnection('max_connection_age');
+                }
+            }
+
+            for (const symbol of this.symbols) {
+                const lastData = this.lastDataAt.get(symbol) ?? this.startedAt;
+                const silentMs = now - lastData;
+                const stale = silentMs > env.SPOT_STALE_SYMBOL_MS;
+
+                if (stale && !this.staleSymbols.has(symbol)) {
+                    this.staleSymbols.add(symbol);
+                    logger.warn('spot.symbol.stale', {
+                        venue: this.venue,
+                        symbol,
+                        silentMs,
+                    });
+
+                    // One replacement attempt per stale episode
+                    this.replaceConnection(`stale_symbol:${symbol}`);
+                } else if (!stale && this.staleSymbols.has(symbol)) {
+                    this.staleSymbols.delete(symbol);
+                    logger.info('spot.symbol.fresh', {
+                        venue: this.venue,
+                        symbol,
+                    });
+                }
+            }
+        }, WATCHDOG_INTERVAL_MS);
+    }
+
+    /**
+     * Schedule reconnection with exponential backoff
+     */
+    private scheduleReconnect(): void {
+        // Backoff: 1s, 2s, 5s, 10s, 30s (max)
+        const delays = [1000, 2000, 5000, 10000, 30000];
+        const delay = delays[Math.min(this.reconnectAttempt, delays.length - 1)];
+
+        logger.info('spot.ws.reconnecting', {
+            venue: this.venue,
+            attempt: this.reconnectAttempt + 1,
+            delayMs: delay,
+        });
+
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectAttempt++;
+            this.connect();
+        }, delay);
+    }
+
+    /**
+     * Handle incoming WebSocket message with robust parsing
+     */
+    private handleMessage(data: string | ArrayBuffer | Blob): void {
+        try {
+            // Convert data to string if needed
+            let messageStr: string;
+
+            if (typeof data === 'string') {
+                messageStr = data;
+            } else if (data instanceof ArrayBuffer) {
+                messageStr = this.textDecoder.decode(data);
+            } else if (data instanceof Uint8Array) {
+                messageStr = this.textDecoder.decode(data);
+            } else {
+                logger.error('spot.ws.unsupported_data_type', {
+                    venue: this.venue,
+                    type: typeof data,
+                });
+                return;
+            }
+
+            const ticks = this.parseMessage(messageStr, Date.now());
+
+            for (const tick of ticks) {
+                this.processTick(tick);
+            }
+        } catch (error) {
+            logger.error('spot.ws.parse_error', {
+                venue: this.venue,
+                error: error instanceof Error ? error.message : String(error),
+            });
+        }
+    }
+
+    /**
+     * Process a tick: update buffers, calculate returns, emit events
+     */
+    protected processTick(tick: SpotTick): void {
+        const { symbol, price, tsExchange, tsLocal } = tick;
+
+        // In-flight data for a symbol that was just unsubscribed
+        if (!this.symbols.includes(symbol)) {
+            return;
+        }
+
+        // Sequence integrity: drop late/duplicate trades, flag gaps
+        if (tick.tradeId !== undefined && Number.isFinite(tick.tradeId) && this.hasContiguousTradeIds()) {
+            const check = this.getSequenceTracker().check(symbol, tick.tradeId, tsLocal);
+
+            if (check.status === 'out_of_order') {
+                logger.debug('spot.trade.out_of_order', {
+                    venue: this.venue,
+                    symbol,
+                    tradeId: tick.tradeId,
+                    lastTradeId: check.lastTradeId,
+                });
+                return;
+            }
+
+            if (check.status === 'gap') {
+                this.handleGap(check.gap);
+            }
+        }
+
+        // Always update latest price
+        this.latestPrice.set(symbol, price);
+        this.lastDataAt.set(symbol, tsLocal);
+
+        // Calculate latency
+        const latencyMs = tsLocal - tsExchange;
+        this.getLatencyTracker().record(symbol, tsExchange, tsLocal);
+        this.getFlowTracker().record(tick);
+
+        // Debug log every tick (will be filtered by LOG_LEVEL)
+        logger.debug('spot.tick', {
+            venue: this.venue,
+            symbol,
+            price,
+            latencyMs,
+            tsExchange,
+            tsLocal,
+        });
+
+        this.emit('tick', tick);
+
+        if (this.priceSource === 'trade') {
+            this.detectMove(tick);
+        }
+    }
+
+    /**
+     * Record a trade gap and optionally distrust the return window
+     */
+    private handleGap(gap: TradeGap): void {
+        const invalidate = env.SPOT_GAP_INVALIDATES_WINDOW;
+        const maxHorizonMs = Math.max(...env.SPOT_RETURN_HORIZONS_MS);
+
+        if (invalidate) {
+            this.unreliableUntil.set(gap.symbol, gap.tsLocal + maxHorizonMs);
+        }
+
+        logger.warn('spot.gap', {
+            venue: gap.venue,
+            symbol: gap.symbol,
+            fromId: gap.fromId,
+            toId: gap.toId,
+            missing: gap.missing,
+            windowUnreliableMs: invalidate ? maxHorizonMs : 0,
+        });
+
+        this.emit('gap', gap);
+    }
+
+    /**
+     * Process a quote: update book state, feed mid/microprice move detection
+     */
+    protected processQuote(quote: SpotQuote): void {
+        if (!this.symbols.includes(quote.symbol)) {
+            return;
+        }
+
+        this.latestQuote.set(quote.symbol, quote);
+        this.lastDataAt.set(quote.symbol, quote.tsLocal);
+
+        logger.debug('spot.quote', {
+            venue: this.venue,
+            symbol: quote.symbol,
+            source: quote.source,
+            bidPrice: quote.bidPrice,
+            askPrice: quote.askPrice,
+            midPrice: quote.midPrice,
+            microPrice: quote.microPrice,
+        });
+
+        this.emit('quote', quote);
+
+        if (this.priceSource !== 'trade') {
+            this.detectMove({
+                venue: this.venue,
+                symbol: quote.symbol,
+                price: this.priceSource === 'mid' ? quote.midPrice : quote.microPrice,
+                tsExchange: quote.tsExchange,
+                tsLocal: quote.tsLocal,
+            });
+        }
+    }
+
+    /**
+     * Run move detection on the selected price series
+     */
+    private detectMove(tick: SpotTick): void {
+        const priceReturn = this.moveDetector?.update(tick);
+
+        // Keep sampling while unreliable so the window refills, but don't emit
+        if (priceReturn && this.isWindowUnreliable(tick.symbol, tick.tsLocal)) {
+            logger.debug('spot.move.suppressed', {
+                venue: this.venue,
+                symbol: tick.symbol,
+                returnBps: priceReturn.returnBps.toFixed(2),
+                reason: 'trade_gap',
+            });
+            return;
+        }
+
+        if (priceReturn) {
+            priceReturn.flow = this.getFlowTracker().getStatsFor(tick.symbol, priceReturn.windowMs, tick.tsLocal);
+
+            logger.warn('spot.move', {
+                venue: this.venue,
+                priceSource: this.priceSource,
+                symbol: priceReturn.symbol,
+                returnBps: priceReturn.returnBps.toFixed(2),
+                direction: priceReturn.direction,
+                currentPrice: priceReturn.currentPrice,
+                pastPrice: priceReturn.pastPrice,
+                windowMs: priceReturn.windowMs,
+                horizonMs: priceReturn.horizonMs,
+                zScore: priceReturn.zScore?.toFixed(2) ?? null,
+                horizonVolBps: priceReturn.horizonVolBps?.toFixed(2) ?? null,
+                flowImbalance: priceReturn.flow?.imbalance.toFixed(3) ?? null,
+                flowNotional: priceReturn.flow?.notional.toFixed(2) ?? null,
+            });
+
+            this.emit('move', priceReturn);
+        }
+    }
+
+    /**
+     * Lazily created: `venue` is an abstract field set after super()
+     */
+    private getLatencyTracker(): LatencyTracker {
+        if (!this.latencyTracker) {
+            this.latencyTracker = new LatencyTracker(this.venue);
+        }
+        return this.latencyTracker;
+    }
+
+    /**
+     * Lazily created for the same reason as the latency tracker
+     */
+    private getSequenceTracker(): TradeSequenceTracker {
+        if (!this.sequenceTracker) {
+            this.sequenceTracker = new TradeSequenceTracker(this.venue);
+        }
+        return this.sequenceTracker;
+    }
+
+    /**
+     * Lazily created for the same reason as the latency tracker
+     */
+    private getFlowTracker(): TradeFlowTracker {
+        if (!this.flowTracker) {
+            this.flowTracker = new TradeFlowTracker(this.venue);
+        }
+        return this.flowTracker;
+    }
+
+    /**
+     * Start periodic trade flow summaries
+     */
+    private startFlowTimer(): void {
+        this.flowTimer = setInterval(() => {
+            const tracker = this.getFlowTracker();
+
+            for (const symbol of tracker.getSymbols()) {
+                for (const stats of tracker.getStats(symbol)) {
+                    logFlow(stats);
+                    this.emit('flow', stats);
+                }
+            }
+        }, env.SPOT_FLOW_EMIT_MS);
+    }
+
+    /**
+     * Start periodic latency summaries and degradation warnings
+     */
+    private startLatencyTimer(): void {
+        this.latencyTimer = setInterval(() => {
+            const tracker = this.getLatencyTracker();
+
+            for (const symbol of tracker.getSymbols()) {
+                const stats = tracker.getStats(symbol);
+                if (!stats) {
+                    continue;
+                }
+
+                logger.info('spot.latency', {
+                    venue: stats.venue,
+                    symbol: stats.symbol,
+                    samples: stats.samples,
+                    p50Ms: stats.p50Ms,
+                    p90Ms: stats.p90Ms,
+                    p99Ms: stats.p99Ms,
+                    maxMs: stats.maxMs,
+                    clockOffsetMs: stats.clockOffsetMs,
+                    adjustedP50Ms: stats.adjustedP50Ms,
+                    adjustedP90Ms: stats.adjustedP90Ms,
+                    adjustedP99Ms: stats.adjustedP99Ms,
+                    histogram: stats.histogram,
+                });
+
+                const transition = tracker.updateDegraded(stats);
+
+                if (transition === 'degraded') {
+                    logger.warn('spot.latency.degraded', {
+                        venue: stats.venue,
+                        symbol: stats.symbol,
+                        adjustedP90Ms: stats.adjustedP90Ms,
+                        warnMs: env.SPOT_LATENCY_WARN_MS,
+                    });
+                } else if (transition === 'recovered') {
+                    logger.info('spot.latency.recovered', {
+                        venue: stats.venue,
+                        symbol: stats.symbol,
+                        adjustedP90Ms: stats.adjustedP90Ms,
+                    });
+                }
+
+                this.emit('latency', stats);
+            }
+        }, env.SPOT_LATENCY_SUMMARY_MS);
+    }
+
+    /**
+     * 1-second realized vol per symbol in bps (for snapshot logging)
+     */
+    private getVolSummary(): Record<string, number | null> {
+        return Object.fromEntries(
+            Array.from(this.latestPrice.keys()).map(sym => [
+                sym,
+                this.moveDetector?.getRealizedVol(sym)?.volPerSecondBps ?? null,
+            ])
+        );
+    }
+
+    /**
+     * Start periodic snapshot logging
+     */
+    private startSnapshotTimer(): void {
+        this.snapshotTimer = setInterval(() => {
+            const snapshot: Record<string, number> = {};
+
+            for (const [symbol, price] of this.latestPrice.entries()) {
+                snapshot[symbol] = price;
+            }
+
+            if (Object.keys(snapshot).length > 0) {
+                logger.info('spot.snapshot', {
+                    venue: this.venue,
+                    prices: snapshot,
+                    mids: Object.fromEntries(
+                        Array.from(this.latestQuote.entries()).map(([sym, q]) => [sym, q.midPrice])
+                    ),
+                    bufferSizes: this.moveDetector?.getBufferSizes() ?? {},
+                    volPerSecondBps: this.getVolSummary(),
+                    sequence: this.hasContiguousTradeIds()
+                        ? Object.fromEntries(this.symbols.map(sym => [sym, this.getSequenceStats(sym)]))
+                        : undefined,
+                });
+            }
+        }, env.SPOT_SNAPSHOT_INTERVAL_MS);
+    }
+}
+
+/**
+ * Log a trade flow summary (shared with the composite feed)
+ */
+export function logFlow(stats: TradeFlowStats): void {
+    logger.info('spot.flow', {
+        venue: stats.venue,
+        symbol: stats.symbol,
+        windowMs: stats.windowMs,
+        trades: stats.trades,
+        volume: stats.volume,
+        notional: stats.notional.toFixed(2),
+        vwap: stats.vwap,
+        buyVolume: stats.buyVolume,
+        sellVolume: stats.sellVolume,
+        imbalance: stats.imbalance.toFixed(3),
+    });
+}
@@ -1,13 +1,27 @@
 import { env } from './config/env.js';
 import { logger } from './infra/logger.js';
-import { BinanceSpotFeed } from './data/spot/binance_ws.js';
-import { PolymarketFeed } from './data/polymarket/market_feed.js';
-// import { LatencySignalEngine } from './strategy/latency_signal.js'; // TODO: Connect to feeds
+import { createSpotFeed } from './data/spot/spot_feed_factory.js';
+import { supportsSubscriptions, type SpotFeed } from './data/spot/types.js';
+import { parseSymbolList } from './data/spot/symbols.js';
+import { createPolyFeed } from './data/polymarket/poly_feed_factory.js';
+import { loadWatchList } from './data/polymarket/watch_list.js';
+import { resolveOutcomePairs, withComplements } from './data/polymarket/outcome_pairs.js';
+import { ComplementBook } from './data/polymarket/complement_book.js';
+import { MarketMetadataService } from './data/polymarket/market_metadata.js';
+import type { PolyFeed } from './data/polymarket/types.js';
+import { createStrategyRegistry, type StrategyRegistry } from './strategy/registry.js';
+import { loadStrategyConfigs } from './strategy/strategy_config.js';
+import { MarkoutTracker } from './strategy/markout.js';
 
 // Global references to keep process alive
-let spotFeed: BinanceSpotFeed | null = null;
-let polyFeed: PolymarketFeed | null = null;
-// let signalEngine: LatencySignalEngine | null = null; // TODO: Connect to feeds
+let spotFeed: SpotFeed | null = null;
+let polyFeed: PolyFeed | null = null;
+let strategies: StrategyRegistry | null = null;
+let markouts: MarkoutTracker | null = null;
+
+// Spot symbols subscribed at runtime on top of SPOT_SYMBOLS
+const dynamicSymbols = new Set<string>();
+let marketMetadata: MarketMetadataService | null = null;
 
 /**
  * Main application entry point
@@ -19,36 +33,119 @@ async function main() {
         environment: env.NODE_ENV,
     });
 
+    const watchList = loadWatchList();
+    const strategyConfigs = loadStrategyConfigs(env.ARB_STRATEGY_FILE);
+
     console.log('\n✅ Boot OK');
     console.log(`⏰ Timestamp: ${new Date().toISOString()}`);
     console.log(`🌍 Environment: ${env.NODE_ENV}`);
     console.log(`📝 Log Level: ${env.LOG_LEVEL}`);
     console.log(`💾 Log to File: ${env.LOG_TO_FILE ? 'Enabled' : 'Disabled'}`);
-    console.log(`\n🔸 Binance Spot Configuration:`);
+    console.log(`\n🔸 Spot Configuration:`);
+    console.log(`  🏦 Venues: ${env.SPOT_VENUES.join(', ')}${env.SPOT_VENUES.length > 1 ? ` (composite: ${env.SPOT_COMPOSITE_METHOD})` : ''}`);
     console.log(`  📊 Symbols: ${env.SPOT_SYMBOLS}`);
     console.log(`  ⏱️  Snapshot: ${env.SPOT_SNAPSHOT_INTERVAL_MS}ms`);
-    console.log(`  📈 Return Window: ${env.SPOT_RETURN_WINDOW_MS}ms`);
-    console.log(`  🎯 Move Threshold: ${env.SPOT_MOVE_THRESHOLD_BPS} bps`);
+    console.log(`  📈 Return Horizons: ${env.SPOT_RETURN_HORIZONS_MS.join(', ')}ms`);
+    console.log(`  💱 Price Source: ${env.SPOT_PRICE_SOURCE}`);
+    console.log(`  🎯 Move Threshold: ${env.SPOT_MOVE_THRESHOLD_BPS} bps / ${env.SPOT_MOVE_THRESHOLD_Z}σ (${env.SPOT_MOVE_THRESHOLD_MODE})`);
     console.log(`  🔬 Buffer Sample: ${env.SPOT_BUFFER_SAMPLE_MS}ms`);
     console.log(`\n🔹 Polymarket Configuration:`);
-    console.log(`  🎲 Token ID: ${env.POLYMARKET_TOKEN_ID}`);
-    console.log(`  ⏱️  Snapshot: ${env.POLY_SNAPSHOT_INTERVAL_MS}ms`);
+    console.log(`  🎲 Tokens: ${watchList.length} (${watchList.map(t => t.symbol ? `${t.tokenId}→${t.symbol}` : t.tokenId).join(', ')})`);
+    console.log(`  📡 Feed Mode: ${env.POLY_FEED_MODE}`);
+    console.log(`  ⏱️  Snapshot: ${env.POLY_FEED_MODE === 'poll' ? `${env.POLY_SNAPSHOT_INTERVAL_MS}ms` : 'on change'}`);
     console.log(`  📊 Depth Levels: ${env.POLY_DEPTH_LEVELS}`);
+    console.log(`  ⚖️  Complement Books: ${env.POLY_COMPLEMENT_BOOKS ? `on (parity ±${env.POLY_PARITY_MAX_DEVIATION})` : 'off'}`);
     console.log(`\n🎯 Arbitrage Strategy:`);
     console.log(`  📏 Min Poly Depth: ${env.ARB_MIN_POLY_DEPTH}`);
     console.log(`  📐 Max Poly Spread: ${env.ARB_MAX_POLY_SPREAD_BPS} bps`);
-    console.log(`  💰 Min Edge: ${env.ARB_MIN_EDGE_BPS} bps`);
-    console.log(`  ⏱️  Cooldown: ${env.ARB_COOLDOWN_MS}ms\n`);
+    console.log(`  💰 Min Edge: ${env.ARB_MIN_EDGE_BPS} bps (vs ${env.ARB_POLY_PRICE_SOURCE})`);
+    console.log(`  🔁 Max Repriced: ${env.ARB_MAX_REPRICED_FRACTION} of implied move`);
+    console.log(`  ⏱️  Cooldown: ${env.ARB_COOLDOWN_MS}ms`);
+    console.log(`  🏁 Resolution Blackout: ${env.ARB_RESOLUTION_BLACKOUT_MS}ms`);
+    console.log(`  🧩 Strategies: ${strategyConfigs.map(c => `${c.id} (${c.type}${c.params ? ` ${JSON.stringify(c.params)}` : ''})`).join(', ')}`);
+    console.log(`  🔭 Mark-outs: ${env.ARB_MARKOUT_HORIZONS_MS.length > 0 ? `${env.ARB_MARKOUT_HORIZONS_MS.join(', ')}ms` : 'off'}\n`);
 
-    // Initialize Strategy Engine (TODO: Connect to feeds)
-    // signalEngine = new LatencySignalEngine();
+    // Market metadata (tick size, end date, ...) also yields outcome pairs
+    const metadata = new MarketMetadataService();
+    marketMetadata = metadata;
 
-    // Initialize Binance Spot Feed
-    spotFeed = new BinanceSpotFeed();
-    spotFeed.start();
+    // Pair each token with its complementary outcome and watch both
+    const pairs = env.POLY_COMPLEMENT_BOOKS ? await resolveOutcomePairs(watchList, metadata) : [];
+    const feedWatchList = withComplements(watchList, pairs);
+
+    // Initialize strategies with metadata, kept current on refresh
+    const registry = createStrategyRegistry();
+    registry.create(strategyConfigs, feedWatchList);
+    strategies = registry;
+
+    for (const market of await metadata.load(feedWatchList.map(t => t.tokenId))) {
+        registry.onMarketMetadata(market);
+    }
+    metadata.on('metadata', (market) => {
+        registry.onMarketMetadata(market);
+        if (spotFeed) {
+            syncSpotSymbols(spotFeed, registry);
+        }
+    });
+
+    // Follow each signal's token and score the realized move
+    const markoutTracker = new MarkoutTracker();
+    markouts = markoutTracker;
+    registry.on('signal', (signal) => markoutTracker.record(signal));
+    metadata.start();
+
+    // Initialize Spot Feed and route ticks and moves into the strategies.
+    // The affected books are refreshed first (fetched when polling,
+    // re-stamped when streaming if confirmed within the loosest strategy's
+    // max Polymarket age) so the move is evaluated against a fresh book; a
+    // polling feed then bursts while the repricing plays out.
+    spotFeed = createSpotFeed();
+    spotFeed.on('tick', (tick) => registry.onSpotTick(tick));
+    syncSpotSymbols(spotFeed, registry);
+    spotFeed.on('move', async (move) => {
+        try {
+            const tokenIds = registry.getTokensFor(move.symbol);
 
-    // Initialize Polymarket Feed
-    polyFeed = new PolymarketFeed();
+            if (polyFeed?.refresh) {
+                await polyFeed.refresh(tokenIds, registry.getMaxPolyAgeMs());
+            }
+            if (env.POLY_BURST_DURATION_MS > 0) {
+                polyFeed?.burst?.(tokenIds);
+            }
+
+            registry.onSpotMove(move);
+        } catch (error) {
+            logger.error('spot.move.error', {
+                symbol: move.symbol,
+                error: error instanceof Error ? error.message : String(error),
+            });
+        }
+    });
+
+    // Initialize Polymarket Feed; consolidated YES/NO quotes go to the strategies
+    const complementBook = new ComplementBook(pairs);
+    complementBook.on('quote', (quote) => {
+        markoutTracker.onQuote(quote);
+        registry.onPolySnapshot({
+            tokenId: quote.tokenId,
+            bestBid: quote.effectiveBid,
+            bestAsk: quote.effectiveAsk,
+            midPrice: quote.effectiveMid,
+            microPrice: quote.microPrice,
+            depthWeightedPrice: quote.depthWeightedPrice,
+            spreadBps: quote.effectiveSpreadBps,
+            depthTopN: quote.depthTopN,
+            timestamp: quote.tsLocal,
+        });
+    });
+
+    polyFeed = createPolyFeed(feedWatchList);
+    polyFeed.on('snapshot', (data) => complementBook.update(data));
+    polyFeed.on('trade', (trade) => registry.onPolyTrade(trade));
+
+    registry.start();
+    markoutTracker.start();
+    spotFeed.start();
     polyFeed.start();
 
     logger.info('app.ready', {
@@ -58,13 +155,66 @@ async function main() {
             logger: 'initialized',
             spotFeed: 'started',
             polyFeed: 'started',
-            signalEngine: 'available',
+            strategies: registry.list().map(s => s.id),
         },
     });
 
     // Future: Initialize execution module
 }
 
+/**
+ * Subscribe the spot feed to symbols the strategies need beyond
+ * SPOT_SYMBOLS (e.g. parsed from a market question) and drop the ones
+ * no longer needed
+ */
+function syncSpotSymbols(feed: SpotFeed, registry: StrategyRegistry) {
+    const configured = new Set(parseSymbolList(env.SPOT_SYMBOLS));
+    const required = new Set(registry.getSymbols().filter(symbol => !configured.has(symbol)));
+
+    if (!supportsSubscriptions(feed)) {
+        if (required.size > 0) {
+            logger.warn('spot.subscribe.unsupported', {
+                venue: feed.venue,
+                symbols: Array.from(required),
+            });
+        }
+        return;
+    }
+
+    for (const symbol of required) {
+        if (dynamicSymbols.has(symbol)) {
+            continue;
+        }
+
+        dynamicSymbols.add(symbol);
+        feed.subscribe(symbol)
+            .then(() => logger.info('spot.subscribed', { symbol }))
+            .catch((error) => {
+                dynamicSymbols.delete(symbol);
+                logger.error('spot.subscribe.error', {
+                    symbol,
+                    error: error instanceof Error ? error.message : String(error),
+                });
+            });
+    }
+
+    for (const symbol of dynamicSymbols) {
+        if (required.has(symbol)) {
+            continue;
+        }
+
+        dynamicSymbols.delete(symbol);
+        feed.unsubscribe(symbol)
+            .then(() => logger.info('spot.unsubscribed', { symbol }))
+            .catch((error) => {
+                logger.error('spot.unsubscribe.error', {
+                    symbol,
+                    error: error instanceof Error ? error.message : String(error),
+                });
+            });
+    }
+}
+
 /**
  * Graceful shutdown handler
  */
@@ -75,10 +225,27 @@ function gracefulShutdown(signal: string) {
 
     if (spotFeed) {
         spotFeed.stop();
+        spotFeed.removeAllListeners();
     }
 
     if (polyFeed) {
         polyFeed.stop();
+        polyFeed.removeAllListeners();
+    }
+
+    if (strategies) {
+        strategies.stop();
+        strategies.removeAllListeners();
+    }
+
+    if (markouts) {
+        markouts.stop();
+        markouts.removeAllListeners();
+    }
+
+    if (marketMetadata) {
+        marketMetadata.stop();
+        marketMetadata.removeAllListeners();
     }
 
     setTimeout(() => {
@@ -0,0 +1,176 @@
+/**
+ * Entry stored in a time-indexed ring buffer
+ */
+export interface TimedEntry<T> {
+    ts: number;
+    value: T;
+}
+
+/**
+ * Fixed-capacity ring buffer keyed by non-decreasing timestamps
+ *
+ * Push is O(1) and overwrites the oldest entry once full; time lookups
+ * are O(log n) binary searches over the logical (oldest -> newest) order.
+ */
+export class TimeRingBuffer<T> {
+    private readonly timestamps: Float64Array;
+    private readonly values: (T | undefined)[];
+    private head = 0;           // Physical index of the oldest entry
+    private count = 0;
+
+    constructor(public readonly capacity: number) {
+        if (!Number.isInteger(capacity) || capacity <= 0) {
+            throw new Error(`Invalid ring buffer capacity: ${capacity}`);
+        }
+
+        this.timestamps = new Float64Array(capacity);
+        this.values = new Array(capacity);
+    }
+
+    /**
+     * Number of stored entries
+     */
+    public get size(): number {
+        return this.count;
+    }
+
+    /**
+     * Append an entry (timestamps must not go backwards)
+     */
+    public push(ts: number, value: T): void {
+        if (this.count > 0 && ts < this.timestampAt(this.count - 1)) {
+            throw new Error(`Out-of-order timestamp: ${ts} < ${this.timestampAt(this.count - 1)}`);
+        }
+
+        const index = (this.head + this.count) % this.capacity;
+        this.timestamps[index] = ts;
+        this.values[index] = value;
+
+        if (this.count < this.capacity) {
+            this.count++;
+        } else {
+            this.head = (this.head + 1) % this.capacity;
+        }
+    }
+
+    /**
+     * Entry at logical index (0 = oldest), or null if out of range
+     */
+    public get(i: number): TimedEntry<T> | null {
+        if (i < 0 || i >= this.count) {
+            return null;
+        }
+
+        const index = (this.head + i) % this.capacity;
+        return { ts: this.timestamps[index], value: this.values[index] as T };
+    }
+
+    /**
+     * Oldest entry
+     */
+    public oldest(): TimedEntry<T> | null {
+        return this.get(0);
+    }
+
+    /**
+     * Newest entry
+     */
+    public latest(): TimedEntry<T> | null {
+        return this.get(this.count - 1);
+    }
+
+    /**
+     * Latest entry with ts <= target ("value as of t")
+     */
+    public atOrBefore(ts: number): TimedEntry<T> | null {
+        const i = this.lastIndexAtOrBefore(ts);
+        return i >= 0 ? this.get(i) : null;
+    }
+
+    /**
+     * Earliest entry with ts >= target
+     */
+    public atOrAfter(ts: number): TimedEntry<T> | null {
+        const i = this.lastIndexAtOrBefore(ts);
+
+        if (i >= 0 && this.timestampAt(i) === ts) {
+            return this.get(i);
+        }
+        return this.get(i + 1);
+    }
+
+    /**
+     * Entries with from <= ts <= to, oldest first
+     */
+    public range(from: number, to: number): TimedEntry<T>[] {
+        const entries: TimedEntry<T>[] = [];
+        let i = Math.max(0, this.lastIndexAtOrBefore(from));
+
+        for (; i < this.count; i++) {
+            const ts = this.timestampAt(i);
+            if (ts > to) {
+                break;
+            }
+            if (ts >= from) {
+                entries.push(this.get(i)!);
+            }
+        }
+
+        return entries;
+    }
+
+    /**
+     * Drop entries older than ts, keeping the latest one at or before it
+     * so "as of ts" lookups stay answerable
+     */
+    public pruneBefore(ts: number): void {
+        const keep = this.lastIndexAtOrBefore(ts);
+        if (keep <= 0) {
+            return;
+        }
+
+        for (let i = 0; i < keep; i++) {
+            this.values[(this.head + i) % this.capacity] = undefined;
+        }
+
+        this.head = (this.head + keep) % this.capacity;
+        this.count -= keep;
+    }
+
+    /**
+     * Remove all entries
+     */
+    public clear(): void {
+        this.values.fill(undefined);
+        this.head = 0;
+        this.count = 0;
+    }
+
+    /**
+     * Timestamp at logical index
+     */
+    private timestampAt(i: number): number {
+        return this.timestamps[(this.head + i) % this.capacity];
+    }
+
+    /**
+     * Binary search: logical index of last entry with ts <= target, or -1
+     */
+    private lastIndexAtOrBefore(ts: number): number {
+        let lo = 0;
+        let hi = this.count - 1;
+        let found = -1;
+
+        while (lo <= hi) {
+            const mid = (lo + hi) >> 1;
+            if (this.timestampAt(mid) <= ts) {
+                found = mid;
+                lo = mid + 1;
+            } else {
+                hi = mid - 1;
+            }
+        }
+
+        return found;
+    }
+}
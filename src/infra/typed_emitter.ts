@@ -0,0 +1,70 @@
+import { EventEmitter } from 'events';
+import { logger } from './logger.js';
+
+/**
+ * Event map: event name -> listener argument tuple
+ */
+export type EventMap = Record<string, unknown[]>;
+
+/**
+ * Listener signature for a given event
+ */
+export type EventListener<Events extends EventMap, K extends keyof Events> = (...args: Events[K]) => void;
+
+/**
+ * Typed wrapper around Node's EventEmitter
+ *
+ * Listener errors are caught and logged so a faulty consumer
+ * cannot break the producer's processing loop.
+ */
+export class TypedEventEmitter<Events extends EventMap> {
+    private readonly emitter = new EventEmitter();
+
+    /**
+     * Register a listener
+     */
+    public on<K extends keyof Events & string>(event: K, listener: EventListener<Events, K>): this {
+        this.emitter.on(event, listener as (...args: unknown[]) => void);
+        return this;
+    }
+
+    /**
+     * Register a one-time listener
+     */
+    public once<K extends keyof Events & string>(event: K, listener: EventListener<Events, K>): this {
+        this.emitter.once(event, listener as (...args: unknown[]) => void);
+        return this;
+    }
+
+    /**
+     * Remove a listener
+     */
+    public off<K extends keyof Events & string>(event: K, listener: EventListener<Events, K>): this {
+        this.emitter.off(event, listener as (...args: unknown[]) => void);
+        return this;
+    }
+
+    /**
+     * Remove all listeners (optionally for one event)
+     */
+    public removeAllListeners<K extends keyof Events & string>(event?: K): this {
+        this.emitter.removeAllListeners(event);
+        return this;
+    }
+
+    /**
+     * Emit an event to all listeners
+     */
+    protected emit<K extends keyof Events & string>(event: K, ...args: Events[K]): void {
+        for (const listener of this.emitter.rawListeners(event)) {
+            try {
+                (listener as (...a: unknown[]) => void)(...args);
+            } catch (error) {
+                logger.error('event.listener_error', {
+                    event,
+                    error: error instanceof Error ? error.message : String(error),
+                });
+            }
+        }
+    }
+}
@@ -3,7 +3,9 @@ import { z } from 'zod';
 import { GammaClient } from '../data/polymarket/gamma_client.js';
 import { GammaSearchClient } from '../data/polymarket/gamma_search_client.js';
 import { ClobClient } from '@polymarket/clob-client';
-import { calculateOrderbookMetrics, type OrderbookMetrics } from '../data/polymarket/orderbook_metrics.js';
+import { OrderBook, type OrderbookMetrics } from '../data/polymarket/order_book.js';
+import { MarketMetadataService, checkTradable } from '../data/polymarket/market_metadata.js';
+import type { MarketMetadata, TradeBlockReason } from '../data/polymarket/types.js';
 import { logger } from '../infra/logger.js';
 
 // Load environment variables
@@ -18,6 +20,8 @@ const pickerEnvSchema = z.object({
     PICK_MAX_EVENTS_FETCH: z.coerce.number().int().positive().default(3000),
     PICK_TOP: z.coerce.number().int().positive().default(10),
     PICK_DEPTH_LEVELS: z.coerce.number().int().positive().default(10),
+    PICK_FILL_SIZE: z.coerce.number().positive().default(100),
+    PICK_BAND_BPS: z.coerce.number().positive().default(200),
     PICK_MAX_SPREAD_BPS: z.coerce.number().positive().default(150),
     PICK_MIN_LIQUIDITY: z.coerce.number().positive().default(500),
     LOG_LEVEL: z.enum(['debug', 'info', 'warn', 'error']).default('info'),
@@ -51,6 +55,9 @@ interface TokenCandidate {
     liquidity?: number;
     volume?: number;
     metrics: OrderbookMetrics;
+    book: OrderBook;
+    metadata: MarketMetadata | null;
+    blocked: TradeBlockReason | null;
     score: number;
     operable: boolean;
     query: string;
@@ -88,6 +95,7 @@ async function main() {
     const gammaClient = new GammaClient();
     const searchClient = new GammaSearchClient();
     const clobClient = new ClobClient('https://clob.polymarket.com', 137);
+    const metadataService = new MarketMetadataService();
 
     // In-memory cache for events (fetch once, reuse for all queries)
     let eventsCache: any[] | null = null;
@@ -255,12 +263,14 @@ async function main() {
                     return null;
                 }
 
-                const metrics = calculateOrderbookMetrics(
-                    item.tokenId,
-                    orderbook.bids,
-                    orderbook.asks,
-                    pickerEnv.PICK_DEPTH_LEVELS
-                );
+                const book = OrderBook.fromLevels(item.tokenId, orderbook.bids, orderbook.asks);
+                const metrics = book.metrics(pickerEnv.PICK_DEPTH_LEVELS);
+
+                // Tick size, min order, end date; closed or resolving markets are not operable
+                const metadata = orderbook.market
+                    ? await metadataService.getByCondition(orderbook.market)
+                    : null;
+                const blocked = metadata ? checkTradable(metadata) : null;
 
                 if (!metrics.valid) {
                     return null;
@@ -280,7 +290,8 @@ async function main() {
                 const operable =
                     metrics.spreadBps <= pickerEnv.PICK_MAX_SPREAD_BPS &&
                     (item.market.liquidity || 0) >= pickerEnv.PICK_MIN_LIQUIDITY &&
-                    item.market.enableOrderBook !== false;
+                    item.market.enableOrderBook !== false &&
+                    blocked === null;
 
                 return {
                     marketQuestion: item.market.question,
@@ -291,6 +302,9 @@ async function main() {
                     liquidity: item.market.liquidity,
                     volume: item.market.volume,
                     metrics,
+                    book,
+                    metadata,
+                    blocked,
                     score,
                     operable,
                     query: item.market.queries[0],
@@ -396,6 +410,21 @@ function displayCandidate(candidate: TokenCandidate, index: number): void {
     console.log(`   📈 Depth (top ${pickerEnv.PICK_DEPTH_LEVELS}): ${candidate.metrics.depthTopN.toFixed(2)}`);
     console.log(`   📚 Levels: ${candidate.metrics.bidLevels} bids / ${candidate.metrics.askLevels} asks`);
 
+    const notional = candidate.book.notionalDepth(pickerEnv.PICK_DEPTH_LEVELS);
+    const band = candidate.book.depthWithinBand(pickerEnv.PICK_BAND_BPS);
+    const fill = candidate.book.vwapToFill('buy', pickerEnv.PICK_FILL_SIZE);
+    console.log(`   💲 Notional (top ${pickerEnv.PICK_DEPTH_LEVELS}): $${notional.bid.toFixed(2)} bid / $${notional.ask.toFixed(2)} ask`);
+    console.log(`   🎚️  Within ±${pickerEnv.PICK_BAND_BPS} bps: ${band.bidSize.toFixed(2)} bid / ${band.askSize.toFixed(2)} ask`);
+    console.log(`   ⚖️  Top Imbalance: ${candidate.book.topOfBookImbalance()?.toFixed(3) ?? 'n/a'}`);
+    console.log(`   🧾 Buy ${pickerEnv.PICK_FILL_SIZE}: VWAP ${fill.vwap?.toFixed(4) ?? 'n/a'}, impact ${fill.priceImpactBps?.toFixed(2) ?? 'n/a'} bps${fill.complete ? '' : ` (only ${fill.filledSize.toFixed(2)} fillable)`}`);
+
+    if (candidate.metadata) {
+        const md = candidate.metadata;
+        const endDate = md.endDate !== null ? new Date(md.endDate).toISOString() : 'n/a';
+        console.log(`   📐 Tick: ${md.tickSize} | Min Order: ${md.minOrderSize} | Neg-Risk: ${md.negRisk ? 'yes' : 'no'}`);
+        console.log(`   🏁 Ends: ${endDate}${candidate.blocked ? ` ❌ (${candidate.blocked})` : ''}`);
+    }
+
     if (candidate.liquidity) {
         console.log(`   💵 Liquidity: $${candidate.liquidity.toLocaleString()}`);
     }
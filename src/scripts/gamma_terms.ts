@@ -0,0 +1,249 @@
+import { config as loadEnv } from 'dotenv';
+import { GammaClient } from '../data/polymarket/gamma_client.js';
+import { parseMarketTerms } from '../data/polymarket/market_terms.js';
+import type { MarketTerms, MarketTermsFailure, MarketTermsResult } from '../data/polymarket/gamma_types.js';
+
+// Load environment variables
+loadEnv();
+
+const query = process.env.POLY_GAMMA_QUERY;
+const limit = parseInt(process.env.POLY_GAMMA_LIMIT || '25', 10);
+
+/**
+ * Reference time for the corpus (dates without a year resolve around it)
+ */
+const CORPUS_NOW = Date.parse('2025-10-01T12:00:00Z');
+
+/**
+ * Expected parse: terms (settlement as ISO UTC) or a failure reason
+ */
+type Expected =
+    | (Omit<MarketTerms, 'settlement' | 'timeZone'> & { settlement: string; timeZone?: string })
+    | MarketTermsFailure;
+
+/**
+ * Question shapes as listed on Polymarket
+ */
+const CORPUS: { question: string; expected: Expected }[] = [
+    // Barriers over a month / year
+    {
+        question: 'Will Bitcoin reach $120,000 in October?',
+        expected: { underlying: 'BTC', symbol: 'BTCUSDT', direction: 'above', strike: 120000, barrier: true, settlement: '2025-11-01T03:59:59.000Z', timeAssumed: true },
+    },
+    {
+        question: 'Will Bitcoin reach $120k in October?',
+        expected: { underlying: 'BTC', symbol: 'BTCUSDT', direction: 'above', strike: 120000, barrier: true, settlement: '2025-11-01T03:59:59.000Z', timeAssumed: true },
+    },
+    {
+        question: 'Will Bitcoin dip to $100,000 in October?',
+        expected: { underlying: 'BTC', symbol: 'BTCUSDT', direction: 'below', strike: 100000, barrier: true, settlement: '2025-11-01T03:59:59.000Z', timeAssumed: true },
+    },
+    {
+        question: 'Will Bitcoin dip below $95k by November 15?',
+        expected: { underlying: 'BTC', symbol: 'BTCUSDT', direction: 'below', strike: 95000, barrier: true, settlement: '2025-11-16T04:59:59.000Z', timeAssumed: true },
+    },
+    {
+        question: 'Will Solana reach $300 by December 31?',
+        expected: { underlying: 'SOL', symbol: 'SOLUSDT', direction: 'above', strike: 300, barrier: true, settlement: '2026-01-01T04:59:59.000Z', timeAssumed: true },
+    },
+    {
+        question: 'Will XRP hit $5 in 2025?',
+        expected: { underlying: 'XRP', symbol: 'XRPUSDT', direction: 'above', strike: 5, barrier: true, settlement: '2026-01-01T04:59:59.000Z', timeAssumed: true },
+    },
+    {
+        question: 'Will Ethereum reach $5,000 by end of 2025?',
+        expected: { underlying: 'ETH', symbol: 'ETHUSDT', direction: 'above', strike: 5000, barrier: true, settlement: '2026-01-01T04:59:59.000Z', timeAssumed: true },
+    },
+    {
+        question: 'Will Bitcoin reach $150k by the end of 2025?',
+        expected: { underlying: 'BTC', symbol: 'BTCUSDT', direction: 'above', strike: 150000, barrier: true, settlement: '2026-01-01T04:59:59.000Z', timeAssumed: true },
+    },
+    {
+        question: 'Will Bitcoin reach $150k by end of year 2025?',
+        expected: { underlying: 'BTC', symbol: 'BTCUSDT', direction: 'above', strike: 150000, barrier: true, settlement: '2026-01-01T04:59:59.000Z', timeAssumed: true },
+    },
+    {
+        question: 'Will Bitcoin reach $130,000 between Oct 1 and Oct 31?',
+        expected: { underlying: 'BTC', symbol: 'BTCUSDT', direction: 'above', strike: 130000, barrier: true, settlement: '2025-11-01T03:59:59.000Z', timeAssumed: true },
+    },
+    {
+        question: 'Will Ethereum dip to $3,500 between December 29, 2025 and January 4, 2026?',
+        expected: { underlying: 'ETH', symbol: 'ETHUSDT', direction: 'below', strike: 3500, barrier: true, settlement: '2026-01-05T04:59:59.000Z', timeAssumed: true },
+    },
+    {
+        question: 'Will Bitcoin reach $1m by 2030?',
+        expected: { underlying: 'BTC', symbol: 'BTCUSDT', direction: 'above', strike: 1000000, barrier: true, settlement: '2031-01-01T04:59:59.000Z', timeAssumed: true },
+    },
+
+    // Daily fixings
+    {
+        question: 'Will the price of Bitcoin be above $110,000 on October 20?',
+        expected: { underlying: 'BTC', symbol: 'BTCUSDT', direction: 'above', strike: 110000, barrier: false, settlement: '2025-10-20T16:00:00.000Z', timeAssumed: true },
+    },
+    {
+        question: 'ETH above 4,000 on Oct 20?',
+        expected: { underlying: 'ETH', symbol: 'ETHUSDT', direction: 'above', strike: 4000, barrier: false, settlement: '2025-10-20T16:00:00.000Z', timeAssumed: true },
+    },
+    {
+        question: 'Bitcoin above 110,000 on March 1?',
+        expected: { underlying: 'BTC', symbol: 'BTCUSDT', direction: 'above', strike: 110000, barrier: false, settlement: '2026-03-01T17:00:00.000Z', timeAssumed: true },
+    },
+    {
+        question: 'Will the price of Bitcoin be less than $100,000 on October 20?',
+        expected: { underlying: 'BTC', symbol: 'BTCUSDT', direction: 'below', strike: 100000, barrier: false, settlement: '2025-10-20T16:00:00.000Z', timeAssumed: true },
+    },
+    {
+        question: 'Will the price of Bitcoin be >$110,000 on Oct 20?',
+        expected: { underlying: 'BTC', symbol: 'BTCUSDT', direction: 'above', strike: 110000, barrier: false, settlement: '2025-10-20T16:00:00.000Z', timeAssumed: true },
+    },
+    {
+        question: 'Will the price of Ethereum be between $4,000 and $4,200 on October 20?',
+        expected: { underlying: 'ETH', symbol: 'ETHUSDT', direction: 'between', strike: 4000, upperStrike: 4200, barrier: false, settlement: '2025-10-20T16:00:00.000Z', timeAssumed: true },
+    },
+    {
+        question: 'Will Bitcoin be above $100k on October 20 at 4PM ET?',
+        expected: { underlying: 'BTC', symbol: 'BTCUSDT', direction: 'above', strike: 100000, barrier: false, settlement: '2025-10-20T20:00:00.000Z', timeAssumed: false },
+    },
+    {
+        question: 'Will Bitcoin be above $110,000 on October 20 at 12:00 ET?',
+        expected: { underlying: 'BTC', symbol: 'BTCUSDT', direction: 'above', strike: 110000, barrier: false, settlement: '2025-10-20T16:00:00.000Z', timeAssumed: false },
+    },
+    {
+        question: 'Will Bitcoin be above $110,000 on November 20 at 16:30 ET?',
+        expected: { underlying: 'BTC', symbol: 'BTCUSDT', direction: 'above', strike: 110000, barrier: false, settlement: '2025-11-20T21:30:00.000Z', timeAssumed: false },
+    },
+    {
+        question: 'Will BTC close above $115,000 on Oct 31 at 12:00 PM UTC?',
+        expected: { underlying: 'BTC', symbol: 'BTCUSDT', direction: 'above', strike: 115000, barrier: false, settlement: '2025-10-31T12:00:00.000Z', timeZone: 'UTC', timeAssumed: false },
+    },
+    {
+        question: 'Will Ethereum be above $4,000 on October 20, 2026?',
+        expected: { underlying: 'ETH', symbol: 'ETHUSDT', direction: 'above', strike: 4000, barrier: false, settlement: '2026-10-20T16:00:00.000Z', timeAssumed: true },
+    },
+    {
+        question: 'Will Dogecoin be above $0.25 on October 20?',
+        expected: { underlying: 'DOGE', symbol: 'DOGEUSDT', direction: 'above', strike: 0.25, barrier: false, settlement: '2025-10-20T16:00:00.000Z', timeAssumed: true },
+    },
+
+    // Not threshold markets
+    { question: 'Bitcoin Up or Down - October 20, 3PM ET', expected: 'no_strike' },
+    { question: 'What price will Bitcoin hit in October?', expected: 'no_strike' },
+    { question: 'Bitcoin above ___ on October 20?', expected: 'no_strike' },
+    { question: 'Will Trump win the 2028 presidential election?', expected: 'unknown_underlying' },
+    { question: 'Will Bitcoin outperform Ethereum in 2025?', expected: 'ambiguous_underlying' },
+    { question: 'Will the price of Bitcoin be between $110,000 and $108,000 on October 20?', expected: 'invalid_range' },
+    { question: 'Will Bitcoin be above $110,000 on February 30?', expected: 'no_settlement' },
+    { question: 'Will Bitcoin reach $130,000 this week?', expected: 'no_settlement' },
+];
+
+/**
+ * Fields that differ between a parse result and the expectation
+ */
+function diff(result: MarketTermsResult, expected: Expected): string[] {
+    if (typeof expected === 'string') {
+        if (result.ok) {
+            return [`expected failure ${expected}, parsed ${describe(result.terms)}`];
+        }
+        return result.reason === expected ? [] : [`reason ${result.reason} != ${expected} (${result.detail})`];
+    }
+
+    if (!result.ok) {
+        return [`failed: ${result.reason} (${result.detail})`];
+    }
+
+    const actual: Record<string, unknown> = {
+        ...result.terms,
+        settlement: new Date(result.terms.settlement).toISOString(),
+    };
+    const wanted: Record<string, unknown> = { timeZone: 'America/New_York', ...expected };
+
+    return Object.keys({ ...wanted, ...actual })
+        .filter(key => actual[key] !== wanted[key])
+        .map(key => `${key}: ${String(actual[key])} != ${String(wanted[key])}`);
+}
+
+/**
+ * One-line summary of parsed terms
+ */
+function describe(terms: MarketTerms): string {
+    const strike = terms.direction === 'between'
+        ? `${terms.strike}-${terms.upperStrike}`
+        : String(terms.strike);
+
+    return [
+        terms.symbol,
+        terms.barrier ? `touch ${terms.direction}` : terms.direction,
+        strike,
+        `@ ${new Date(terms.settlement).toISOString()}`,
+        `(${terms.timeZone}${terms.timeAssumed ? ', time assumed' : ''})`,
+    ].join(' ');
+}
+
+/**
+ * Check the parser against the corpus
+ */
+function runCorpus(): number {
+    console.log(`🧪 Parsing ${CORPUS.length} question shapes (reference ${new Date(CORPUS_NOW).toISOString()})\n`);
+
+    let failures = 0;
+    for (const { question, expected } of CORPUS) {
+        const result = parseMarketTerms(question, CORPUS_NOW);
+        const problems = diff(result, expected);
+
+        if (problems.length === 0) {
+            console.log(`✅ ${question}`);
+            console.log(`   ${result.ok ? describe(result.terms) : `${result.reason}: ${result.detail}`}`);
+        } else {
+            failures++;
+            console.log(`❌ ${question}`);
+            for (const problem of problems) {
+                console.log(`   ${problem}`);
+            }
+        }
+    }
+
+    console.log('');
+    console.log(failures === 0
+        ? `✅ All ${CORPUS.length} questions parsed as expected`
+        : `❌ ${failures}/${CORPUS.length} questions did not parse as expected`);
+
+    return failures;
+}
+
+/**
+ * Parse live Gamma questions matching POLY_GAMMA_QUERY (informational)
+ */
+async function runLive(liveQuery: string): Promise<void> {
+    console.log(`\n🔍 Parsing live markets matching "${liveQuery}" (limit ${limit})\n`);
+
+    const markets = await new GammaClient().searchMarkets(liveQuery, limit);
+    let parsed = 0;
+
+    for (const market of markets) {
+        const result = parseMarketTerms(market.question);
+        if (result.ok) {
+            parsed++;
+        }
+
+        console.log(`${result.ok ? '✅' : '⚪'} ${market.question}`);
+        console.log(`   ${result.ok ? describe(result.terms) : `${result.reason}: ${result.detail}`}`);
+    }
+
+    console.log(`\n📊 Parsed ${parsed}/${markets.length} live questions`);
+}
+
+async function main() {
+    const failures = runCorpus();
+
+    if (query) {
+        try {
+            await runLive(query);
+        } catch (error) {
+            console.error('❌ Error fetching markets:', error instanceof Error ? error.message : String(error));
+        }
+    }
+
+    process.exit(failures === 0 ? 0 : 1);
+}
+
+main();
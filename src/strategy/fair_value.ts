@@ -0,0 +1,194 @@
+import type { MarketTerms, MarketTermsDirection } from '../data/polymarket/gamma_types.js';
+
+/**
+ * Milliseconds per year (same convention as realized vol annualization)
+ */
+const MS_PER_YEAR = 365 * 24 * 60 * 60 * 1000;
+
+/**
+ * Terms of a cash-or-nothing digital paying 1 if the condition holds at
+ * expiry, or (barrier) if spot touches the strike any time before it
+ */
+export interface DigitalContract {
+    direction: MarketTermsDirection;
+    strike: number;
+    upperStrike?: number;       // Required for `between`
+    expiry: number;             // Settlement time (ms)
+    barrier?: boolean;          // One-touch; not supported for `between`
+}
+
+/**
+ * Model price of a digital contract
+ */
+export interface DigitalFairValue {
+    probability: number;        // Fair YES price in [0, 1]
+    spot: number;
+    timeToExpiryMs: number;
+    annualizedVol: number;
+    horizonSigma: number;       // Log-return stdev to expiry
+}
+
+/**
+ * Fair probability vs the prices a taker actually gets
+ */
+export interface ExecutableEdge {
+    fairProbability: number;
+    bid: number;
+    ask: number;
+    buyEdge: number;            // fair - ask: value of buying YES
+    sellEdge: number;           // bid - fair: value of selling YES (buying NO)
+    side: 'buy' | 'sell' | null; // Side with positive edge, if any
+    edge: number;               // Best of the two, in probability points
+    edgeBps: number;            // Same, in bps of the $1 payoff
+}
+
+/**
+ * Digital contract described by a parsed market question
+ */
+export function contractFromTerms(terms: MarketTerms): DigitalContract {
+    return {
+        direction: terms.direction,
+        strike: terms.strike,
+        upperStrike: terms.upperStrike,
+        expiry: terms.settlement,
+        barrier: terms.barrier,
+    };
+}
+
+/**
+ * Per-ms log-return variance from an annualized vol (e.g. implied vol)
+ */
+export function variancePerMsFromAnnualized(annualizedVol: number): number {
+    return (annualizedVol * annualizedVol) / MS_PER_YEAR;
+}
+
+/**
+ * Price a digital as a lognormal (Black-Scholes) cash-or-nothing option
+ *
+ * Rates and drift are taken as zero over the short horizons traded here,
+ * so P(S_T > K) = N(d2) with d2 = (ln(S/K) - sigma^2 / 2) / sigma, where
+ * sigma is the log-return stdev to expiry from `variancePerMs` (realized
+ * vol from the move detector, or variancePerMsFromAnnualized for an
+ * implied vol). At or past expiry, or with zero vol, the payoff is
+ * evaluated at the current spot.
+ *
+ * Barrier (one-touch) contracts use the reflection principle for a
+ * driftless log price: P(touch K) = 2 N(-|ln(K/S)| / sigma), or 1 once
+ * spot is already through the strike.
+ */
+export function priceDigital(
+    contract: DigitalContract,
+    spot: number,
+    variancePerMs: number,
+    now: number = Date.now()
+): DigitalFairValue {
+    if (!(spot > 0) || !(contract.strike > 0)) {
+        throw new Error(`Invalid spot ${spot} or strike ${contract.strike}`);
+    }
+
+    if (contract.direction === 'between' &&
+        !(contract.upperStrike !== undefined && contract.upperStrike > contract.strike)) {
+        throw new Error(`Range contract needs upperStrike above strike ${contract.strike}`);
+    }
+
+    if (contract.direction === 'between' && contract.barrier) {
+        throw new Error('Barrier range contracts are not supported');
+    }
+
+    const timeToExpiryMs = Math.max(contract.expiry - now, 0);
+    const horizonSigma = Math.sqrt(Math.max(variancePerMs, 0) * timeToExpiryMs);
+
+    let probability: number;
+    switch (contract.direction) {
+        case 'above':
+            probability = contract.barrier
+                ? probabilityTouch(spot, contract.strike, horizonSigma, 'above')
+                : probabilityAbove(spot, contract.strike, horizonSigma);
+            break;
+        case 'below':
+            probability = contract.barrier
+                ? probabilityTouch(spot, contract.strike, horizonSigma, 'below')
+                : 1 - probabilityAbove(spot, contract.strike, horizonSigma);
+            break;
+        case 'between':
+            probability = probabilityAbove(spot, contract.strike, horizonSigma) -
+                probabilityAbove(spot, contract.upperStrike!, horizonSigma);
+            break;
+    }
+
+    return {
+        probability: Math.min(Math.max(probability, 0), 1),
+        spot,
+        timeToExpiryMs,
+        annualizedVol: Math.sqrt(Math.max(variancePerMs, 0) * MS_PER_YEAR),
+        horizonSigma,
+    };
+}
+
+/**
+ * Edge of a fair YES probability against executable YES bid/ask
+ *
+ * Buying YES pays the ask; selling YES (or buying NO) receives the bid,
+ * so mid-based edges that vanish once the spread is paid never show up.
+ */
+export function executableEdge(fairProbability: number, bid: number, ask: number): ExecutableEdge {
+    const buyEdge = fairProbability - ask;
+    const sellEdge = bid - fairProbability;
+    const edge = Math.max(buyEdge, sellEdge);
+
+    let side: ExecutableEdge['side'] = null;
+    if (edge > 0) {
+        side = buyEdge >= sellEdge ? 'buy' : 'sell';
+    }
+
+    return {
+        fairProbability,
+        bid,
+        ask,
+        buyEdge,
+        sellEdge,
+        side,
+        edge,
+        edgeBps: edge * 10000,
+    };
+}
+
+/**
+ * P(S_T > K) under a driftless lognormal with log stdev `sigma` to expiry
+ */
+function probabilityAbove(spot: number, strike: number, sigma: number): number {
+    if (sigma <= 0) {
+        return spot > strike ? 1 : 0;
+    }
+
+    const d2 = (Math.log(spot / strike) - (sigma * sigma) / 2) / sigma;
+    return normalCdf(d2);
+}
+
+/**
+ * P(spot touches `strike` from the given side before expiry), driftless
+ */
+function probabilityTouch(spot: number, strike: number, sigma: number, side: 'above' | 'below'): number {
+    const through = side === 'above' ? spot >= strike : spot <= strike;
+    if (through) {
+        return 1;
+    }
+
+    if (sigma <= 0) {
+        return 0;
+    }
+
+    return 2 * normalCdf(-Math.abs(Math.log(strike / spot)) / sigma);
+}
+
+/**
+ * Standard normal CDF (Abramowitz & Stegun 7.1.26, abs error < 1.5e-7)
+ */
+function normalCdf(x: number): number {
+    const z = Math.abs(x) / Math.SQRT2;
+    const t = 1 / (1 + 0.3275911 * z);
+    const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+    const erf = 1 - poly * Math.exp(-z * z);
+
+    return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
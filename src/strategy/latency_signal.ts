@@ -1,163 +1,684 @@
+import { z } from 'zod';
 import { logger } from '../infra/logger.js';
 import { env } from '../config/env.js';
-import type { ArbSignal, DiscardReason, PolySnapshot } from './types.js';
+import { TypedEventEmitter } from '../infra/typed_emitter.js';
+import type { PriceReturn, SpotTick, TradeFlowStats } from '../data/spot/types.js';
+import { checkTradable } from '../data/polymarket/market_metadata.js';
+import { TradeTape } from '../data/polymarket/trade_tape.js';
+import { parseMarketTerms } from '../data/polymarket/market_terms.js';
+import type { MarketTerms } from '../data/polymarket/gamma_types.js';
+import type { MarketMetadata, PolyTapeStats, PolyTrade, WatchedToken } from '../data/polymarket/types.js';
+import { tokenSensitivity } from './sensitivity.js';
+import { contractFromTerms, executableEdge, priceDigital } from './fair_value.js';
+import type {
+    ArbSignal,
+    DiscardReason,
+    PolyPriceSource,
+    PolySnapshot,
+    SignalSide,
+    Strategy,
+    StrategyEvents,
+    StrategyFactory,
+} from './types.js';
+
+/**
+ * Thresholds of one latency strategy instance
+ */
+export interface LatencyParams {
+    minPolyDepth: number;
+    maxPolySpreadBps: number;
+    minEdgeBps: number;
+    maxRepricedFraction: number;
+    cooldownMs: number;
+    maxSpotAgeMs: number;
+    maxPolyAgeMs: number;
+    resolutionBlackoutMs: number;
+    priceSource: PolyPriceSource;
+    minFlowImbalance: number;       // 0 = disabled
+    minFlowNotional: number;        // 0 = disabled
+}
+
+/**
+ * Per-instance overrides accepted in a strategy config
+ */
+const latencyParamsSchema = z.object({
+    minPolyDepth: z.number().positive().finite(),
+    maxPolySpreadBps: z.number().positive().finite(),
+    minEdgeBps: z.number().positive().finite(),
+    maxRepricedFraction: z.number().positive().finite(),
+    cooldownMs: z.number().int().positive().finite(),
+    maxSpotAgeMs: z.number().int().positive().finite(),
+    maxPolyAgeMs: z.number().int().positive().finite(),
+    resolutionBlackoutMs: z.number().int().nonnegative().finite(),
+    priceSource: z.enum(['mid', 'microprice', 'depth_weighted']),
+    minFlowImbalance: z.number().min(0).max(1),
+    minFlowNotional: z.number().nonnegative().finite(),
+}).strict().partial();
+
+/**
+ * Latency params from the ARB_* env vars
+ */
+export function latencyParamsFromEnv(): LatencyParams {
+    return {
+        minPolyDepth: env.ARB_MIN_POLY_DEPTH,
+        maxPolySpreadBps: env.ARB_MAX_POLY_SPREAD_BPS,
+        minEdgeBps: env.ARB_MIN_EDGE_BPS,
+        maxRepricedFraction: env.ARB_MAX_REPRICED_FRACTION,
+        cooldownMs: env.ARB_COOLDOWN_MS,
+        maxSpotAgeMs: env.ARB_MAX_SPOT_AGE_MS,
+        maxPolyAgeMs: env.ARB_MAX_POLY_AGE_MS,
+        resolutionBlackoutMs: env.ARB_RESOLUTION_BLACKOUT_MS,
+        priceSource: env.ARB_POLY_PRICE_SOURCE,
+        minFlowImbalance: env.ARB_MIN_FLOW_IMBALANCE,
+        minFlowNotional: env.ARB_MIN_FLOW_NOTIONAL,
+    };
+}
+
+/**
+ * Strategy factory for type `latency`: env defaults overridden by `params`
+ */
+export const createLatencyStrategy: StrategyFactory = (id, watchList, params) => {
+    const parsed = latencyParamsSchema.safeParse(params);
+    if (!parsed.success) {
+        const issues = parsed.error.issues.map(i => `${i.path.join('.') || 'params'}: ${i.message}`);
+        throw new Error(`Invalid params for strategy ${id}: ${issues.join('; ')}`);
+    }
+
+    return new LatencySignalEngine(id, watchList, { ...latencyParamsFromEnv(), ...parsed.data });
+};
 
 /**
  * Latency Arbitrage Signal Engine
+ *
+ * Keeps a snapshot buffer per Polymarket token and evaluates one watched
+ * token per market on each spot move (tokens pinned to another spot
+ * symbol are skipped). With consolidated books a YES and its NO quote
+ * the same trade, so the YES is evaluated when both are watched.
+ * Cooldown applies per market and side.
+ *
+ * Each token's sensitivity sign comes from its market question (parsed
+ * into terms once metadata arrives) and outcome: the YES of an "above"
+ * market should rise with spot, its NO should fall. The token is priced
+ * as a digital option on the post-move spot with the move's realized
+ * vol (1 - p for the NO), and edge is that fair value against the
+ * executable price in the expected direction: the ask if the token
+ * should rise, the bid (i.e. buying the complement) if it should fall.
+ * The token's own move over the spot return's window is compared with
+ * the move the model implies (fair value after vs. before the spot move):
+ * once it has covered maxRepricedFraction of it in the expected
+ * direction, Polymarket has caught up and the token is discarded. The
+ * signal names the outcome to buy. Tokens whose question doesn't parse
+ * are discarded, and unpinned tokens are pinned to the question's
+ * underlying.
+ *
+ * Moves whose spot sample is older than maxSpotAgeMs, and tokens whose
+ * latest snapshot is older than maxPolyAgeMs, are discarded rather than
+ * evaluated against data from a dead feed.
+ *
+ * Thresholds are per instance (LatencyParams), so several engines with
+ * different ids can run side by side on the same data.
  */
-export class LatencySignalEngine {
-    private polySnapshots: PolySnapshot[] = [];
-    private lastSignalTime = 0;
-    private readonly snapshotWindowMs = 60000; // 60s buffer
+export class LatencySignalEngine extends TypedEventEmitter<StrategyEvents> implements Strategy {
+    // tokenId -> snapshots within the window, oldest first
+    private polySnapshots = new Map<string, PolySnapshot[]>();
+
+    // `${market}|${side}` -> last signal time
+    private lastSignalTime = new Map<string, number>();
+
+    // At least 60s, grown to reach back to the start of the longest spot
+    // return window this instance has been handed
+    private snapshotWindowMs = 60000;
+
+    // Watched token IDs, and tokenId -> pinned spot symbol
+    private readonly tokenIds: string[];
+    private readonly tokenSymbols = new Map<string, string>();
+
+    // tokenId -> market metadata (tick size, end date, ...)
+    private marketMetadata = new Map<string, MarketMetadata>();
+
+    // tokenId -> parsed market terms / outcome label
+    private marketTerms = new Map<string, MarketTerms>();
+    private tokenOutcomes = new Map<string, string>();
+
+    // Recent Polymarket prints per token
+    private readonly tradeTape = new TradeTape();
+
+    constructor(
+        public readonly id: string = 'latency',
+        watchList: WatchedToken[] = [],
+        private readonly params: LatencyParams = latencyParamsFromEnv()
+    ) {
+        super();
+
+        this.tokenIds = watchList.map(t => t.tokenId);
+        for (const { tokenId, symbol } of watchList) {
+            if (symbol) {
+                this.tokenSymbols.set(tokenId, symbol);
+            }
+        }
 
-    constructor() {
         logger.info('arb.engine.init', {
-            minPolyDepth: env.ARB_MIN_POLY_DEPTH,
-            maxPolySpreadBps: env.ARB_MAX_POLY_SPREAD_BPS,
-            minEdgeBps: env.ARB_MIN_EDGE_BPS,
-            cooldownMs: env.ARB_COOLDOWN_MS,
+            strategyId: this.id,
+            tokens: watchList.length,
+            pinnedTokens: this.tokenSymbols.size,
+            ...params,
         });
     }
 
+    /**
+     * Spot ticks are not used: moves carry the return, window and flow
+     */
+    public onSpotTick(_tick: SpotTick): void {}
+
     /**
      * Update Polymarket snapshot
      */
-    public updatePolySnapshot(snapshot: PolySnapshot): void {
-        this.polySnapshots.push(snapshot);
+    public onPolySnapshot(snapshot: PolySnapshot): void {
+        const snapshots = this.polySnapshots.get(snapshot.tokenId) ?? [];
+        snapshots.push(snapshot);
 
-        // Clean old snapshots outside window
-        const cutoff = Date.now() - this.snapshotWindowMs;
-        this.polySnapshots = this.polySnapshots.filter(s => s.timestamp >= cutoff);
+        const recent = this.prune(snapshots, Date.now());
+        this.polySnapshots.set(snapshot.tokenId, recent);
 
         logger.debug('arb.poly_update', {
             tokenId: snapshot.tokenId,
             midPrice: snapshot.midPrice,
-            bufferSize: this.polySnapshots.length,
+            bufferSize: recent.length,
+        });
+    }
+
+    /**
+     * Prune snapshot buffers of tokens that stopped updating
+     */
+    public onTimer(now: number): void {
+        for (const [tokenId, snapshots] of this.polySnapshots) {
+            this.polySnapshots.set(tokenId, this.prune(snapshots, now));
+        }
+    }
+
+    /**
+     * Record a Polymarket print
+     */
+    public onPolyTrade(trade: PolyTrade): void {
+        this.tradeTape.record(trade);
+    }
+
+    /**
+     * Trade tape stats for a token (time since last print, recent volume)
+     */
+    public getTapeStats(tokenId: string): PolyTapeStats {
+        return this.tradeTape.getStats(tokenId);
+    }
+
+    /**
+     * Update market metadata for all of a market's tokens
+     */
+    public onMarketMetadata(metadata: MarketMetadata): void {
+        for (const token of metadata.tokens) {
+            this.marketMetadata.set(token.tokenId, metadata);
+            this.tokenOutcomes.set(token.tokenId, token.outcome);
+        }
+
+        const result = parseMarketTerms(metadata.question);
+        if (!result.ok) {
+            logger.info('arb.terms.unparsed', {
+                conditionId: metadata.conditionId,
+                question: metadata.question,
+                reason: result.reason,
+                detail: result.detail,
+            });
+            return;
+        }
+
+        const { terms } = result;
+        for (const token of metadata.tokens) {
+            this.marketTerms.set(token.tokenId, terms);
+
+            const pinned = this.tokenSymbols.get(token.tokenId);
+            if (pinned && pinned !== terms.symbol) {
+                logger.warn('arb.terms.symbol_mismatch', {
+                    tokenId: token.tokenId,
+                    pinnedSymbol: pinned,
+                    questionSymbol: terms.symbol,
+                });
+            }
+        }
+
+        logger.info('arb.terms', {
+            conditionId: metadata.conditionId,
+            symbol: terms.symbol,
+            direction: terms.direction,
+            strike: terms.strike,
+            upperStrike: terms.upperStrike,
+            barrier: terms.barrier,
+            settlement: new Date(terms.settlement).toISOString(),
         });
     }
 
+    /**
+     * Watched tokens evaluated on a move of `symbol` (pinned to it or unpinned)
+     */
+    public getTokensFor(symbol: string): string[] {
+        return this.tokenIds.filter(tokenId => (this.symbolOf(tokenId) ?? symbol) === symbol);
+    }
+
+    /**
+     * Spot symbols of watched tokens (pinned or parsed from their question)
+     */
+    public getSymbols(): string[] {
+        const symbols = new Set<string>();
+        for (const tokenId of this.tokenIds) {
+            const symbol = this.symbolOf(tokenId);
+            if (symbol) {
+                symbols.add(symbol);
+            }
+        }
+        return Array.from(symbols);
+    }
+
+    /**
+     * Max Polymarket snapshot age this instance accepts
+     */
+    public getMaxPolyAgeMs(): number {
+        return this.params.maxPolyAgeMs;
+    }
+
     /**
      * Process spot move event
+     *
+     * The move's trade flow, if any, is used as confirmation; its window
+     * is the interval the token's own movement is measured over.
+     */
+    public onSpotMove(move: PriceReturn): void {
+        const { symbol } = move;
+
+        // Keep enough snapshots for the next move over a window this long
+        this.snapshotWindowMs = Math.max(this.snapshotWindowMs, move.windowMs + this.params.maxSpotAgeMs);
+
+        // The move may have waited on a book refresh; don't act on it late
+        const spotAgeMs = Date.now() - move.tsLocal;
+        if (spotAgeMs > this.params.maxSpotAgeMs) {
+            this.logDiscard('stale_spot', {
+                ...this.moveFields(move),
+                spotAgeMs,
+                maxAgeMs: this.params.maxSpotAgeMs,
+            });
+            return;
+        }
+
+        const tokenIds = this.onePerMarket(Array.from(this.polySnapshots.keys())
+            .filter(tokenId => (this.symbolOf(tokenId) ?? symbol) === symbol)
+            .filter(tokenId => this.polySnapshots.get(tokenId)!.length > 0));
+
+        if (tokenIds.length === 0) {
+            this.logDiscard('no_poly_snapshot', this.moveFields(move));
+            return;
+        }
+
+        for (const tokenId of tokenIds) {
+            this.evaluateToken(tokenId, move);
+        }
+    }
+
+    /**
+     * Evaluate one token against a spot move
      */
-    public processSpotMove(
-        symbol: string,
-        price: number,
-        moveBps: number,
-        direction: 'up' | 'down'
-    ): void {
+    private evaluateToken(tokenId: string, move: PriceReturn): void {
+        const { currentPrice: price, returnBps: moveBps, direction, flow } = move;
         const now = Date.now();
+        const snapshots = this.polySnapshots.get(tokenId)!;
+        const latestPoly = snapshots[snapshots.length - 1];
+        const metadata = this.marketMetadata.get(tokenId);
+
+        // Never trade closed markets or into resolution
+        const blocked = metadata ? checkTradable(metadata, now, this.params.resolutionBlackoutMs) : null;
+        if (blocked && metadata) {
+            this.logDiscard(blocked, {
+                ...this.moveFields(move),
+                polyTokenId: tokenId,
+                endDate: metadata.endDate !== null ? new Date(metadata.endDate).toISOString() : null,
+                blackoutMs: this.params.resolutionBlackoutMs,
+            });
+            return;
+        }
 
-        // Get latest Polymarket snapshot
-        const latestPoly = this.getLatestPolySnapshot();
+        // Snapshots are only pruned on update, so a dead feed leaves the last one behind
+        const polyAgeMs = now - latestPoly.timestamp;
+        if (polyAgeMs > this.params.maxPolyAgeMs) {
+            this.logDiscard('stale_poly_snapshot', {
+                ...this.moveFields(move),
+                polyTokenId: tokenId,
+                polyAgeMs,
+                maxAgeMs: this.params.maxPolyAgeMs,
+            });
+            return;
+        }
 
-        if (!latestPoly) {
-            this.logDiscard('no_poly_snapshot', {
-                spotSymbol: symbol,
-                spotPrice: price,
-                spotMoveBps: moveBps,
-                spotDirection: direction,
+        // Which way the token should move, from its market's terms and outcome
+        const terms = this.marketTerms.get(tokenId);
+        const outcome = this.tokenOutcomes.get(tokenId);
+        const sensitivity = terms && outcome ? tokenSensitivity(terms, outcome, price) : null;
+        if (!sensitivity) {
+            this.logDiscard('unknown_sensitivity', {
+                ...this.moveFields(move),
+                polyTokenId: tokenId,
+                outcome: outcome ?? null,
+                termsDirection: terms?.direction ?? null,
+                detail: sensitivity === 0 ? 'spot inside range' : 'no parsed terms for token',
             });
             return;
         }
 
+        // Which way the token should move, and the trade that implies
+        const expectedSign = sensitivity * (direction === 'up' ? 1 : -1);
+        const side = this.sideFor(outcome!, expectedSign);
+
         // Check spread threshold
-        if (latestPoly.spreadBps > env.ARB_MAX_POLY_SPREAD_BPS) {
+        if (latestPoly.spreadBps > this.params.maxPolySpreadBps) {
             this.logDiscard('wide_spread', {
-                spotSymbol: symbol,
-                spotPrice: price,
-                spotMoveBps: moveBps,
-                spotDirection: direction,
+                ...this.moveFields(move),
+                polyTokenId: tokenId,
                 polySpreadBps: latestPoly.spreadBps,
-                maxAllowed: env.ARB_MAX_POLY_SPREAD_BPS,
+                maxAllowed: this.params.maxPolySpreadBps,
             });
             return;
         }
 
         // Check depth threshold
-        if (latestPoly.depthTopN < env.ARB_MIN_POLY_DEPTH) {
+        if (latestPoly.depthTopN < this.params.minPolyDepth) {
             this.logDiscard('low_depth', {
-                spotSymbol: symbol,
-                spotPrice: price,
-                spotMoveBps: moveBps,
-                spotDirection: direction,
+                ...this.moveFields(move),
+                polyTokenId: tokenId,
                 polyDepth: latestPoly.depthTopN,
-                minRequired: env.ARB_MIN_POLY_DEPTH,
+                minRequired: this.params.minPolyDepth,
             });
             return;
         }
 
-        // Check cooldown
-        const timeSinceLastSignal = now - this.lastSignalTime;
-        if (timeSinceLastSignal < env.ARB_COOLDOWN_MS) {
+        // Check cooldown (per market and side: YES and NO are the same trade)
+        const cooldownKey = `${this.marketOf(tokenId)}|${side}`;
+        const timeSinceLastSignal = now - (this.lastSignalTime.get(cooldownKey) ?? 0);
+        if (timeSinceLastSignal < this.params.cooldownMs) {
             this.logDiscard('cooldown', {
-                spotSymbol: symbol,
-                spotPrice: price,
-                spotMoveBps: moveBps,
-                spotDirection: direction,
+                ...this.moveFields(move),
+                polyTokenId: tokenId,
+                side,
                 timeSinceLastMs: timeSinceLastSignal,
-                cooldownMs: env.ARB_COOLDOWN_MS,
+                cooldownMs: this.params.cooldownMs,
+            });
+            return;
+        }
+
+        // Check trade flow confirms the move (genuine flow vs. thin prints)
+        if (flow && !this.isFlowConfirmed(flow, direction)) {
+            this.logDiscard('weak_flow', {
+                ...this.moveFields(move),
+                polyTokenId: tokenId,
+                flowImbalance: flow.imbalance,
+                flowNotional: flow.notional,
+                minImbalance: this.params.minFlowImbalance,
+                minNotional: this.params.minFlowNotional,
+            });
+            return;
+        }
+
+        // Token movement over the spot return's own window
+        const windowEnd = move.tsLocal;
+        const windowStart = windowEnd - move.windowMs;
+        const polyMove = this.calculatePolyMovement(snapshots, windowStart, windowEnd);
+        if (!polyMove) {
+            this.logDiscard('poly_window_uncovered', {
+                ...this.moveFields(move),
+                polyTokenId: tokenId,
+                windowStart,
+                oldestSnapshot: snapshots[0].timestamp,
+            });
+            return;
+        }
+
+        // Fair value needs a vol; the detector reports none until warm
+        if (move.variancePerMs === null) {
+            this.logDiscard('vol_unavailable', {
+                ...this.moveFields(move),
+                polyTokenId: tokenId,
+            });
+            return;
+        }
+
+        const contract = contractFromTerms(terms!);
+        const fair = priceDigital(contract, price, move.variancePerMs, now);
+        const fairValue = this.isYes(tokenId) ? fair.probability : 1 - fair.probability;
+        const { moveBps: polyMoveBps } = polyMove;
+
+        // Has the token already repriced for the move? Compare its own move
+        // with the fair value change the spot move implies
+        const fairBefore = priceDigital(contract, move.pastPrice, move.variancePerMs, now).probability;
+        const fairValueBefore = this.isYes(tokenId) ? fairBefore : 1 - fairBefore;
+        const impliedMoveBps = ((fairValue - fairValueBefore) / polyMove.startPrice) * 10000;
+        if (expectedSign * polyMoveBps >= this.params.maxRepricedFraction * Math.abs(impliedMoveBps)) {
+            this.logDiscard('already_repriced', {
+                ...this.moveFields(move),
+                polyTokenId: tokenId,
+                polySensitivity: sensitivity,
+                polyMoveBps,
+                impliedMoveBps,
+                windowMs: move.windowMs,
+                maxRepricedFraction: this.params.maxRepricedFraction,
             });
             return;
         }
 
-        // Calculate edge (simplified: assume spot move should reflect in poly)
-        const polyMoveBps = this.calculatePolyMovement();
-        const edgeBps = Math.abs(moveBps) - Math.abs(polyMoveBps);
+        // Edge in the direction the move implies: buy the token at the ask
+        // if it should rise, sell it at the bid (buy the complement) if not
+        const executable = executableEdge(fairValue, latestPoly.bestBid, latestPoly.bestAsk);
+        const edgeBps = (expectedSign > 0 ? executable.buyEdge : executable.sellEdge) * 10000;
 
-        if (edgeBps < env.ARB_MIN_EDGE_BPS) {
+        if (edgeBps < this.params.minEdgeBps) {
             this.logDiscard('insufficient_edge', {
-                spotSymbol: symbol,
-                spotPrice: price,
-                spotMoveBps: moveBps,
-                spotDirection: direction,
+                ...this.moveFields(move),
+                polyTokenId: tokenId,
+                polySensitivity: sensitivity,
                 polyMoveBps,
+                windowMs: move.windowMs,
+                fairValue,
+                polyBid: latestPoly.bestBid,
+                polyAsk: latestPoly.bestAsk,
+                annualizedVol: fair.annualizedVol,
                 edgeBps,
-                minRequired: env.ARB_MIN_EDGE_BPS,
+                minRequired: this.params.minEdgeBps,
             });
             return;
         }
 
         // Emit signal
+        const tape = this.tradeTape.getStats(tokenId, now);
         this.emitSignal({
+            strategyId: this.id,
             timestamp: now,
-            spotSymbol: symbol,
+            spotSymbol: move.symbol,
             spotPrice: price,
             spotMoveBps: moveBps,
             spotDirection: direction,
             polyTokenId: latestPoly.tokenId,
             polyMidPrice: latestPoly.midPrice,
+            polyFairPrice: this.fairPrice(latestPoly),
+            polyPriceSource: this.params.priceSource,
+            polyBid: latestPoly.bestBid,
+            polyAsk: latestPoly.bestAsk,
             polySpreadBps: latestPoly.spreadBps,
             polyDepth: latestPoly.depthTopN,
+            fairValue,
+            annualizedVol: fair.annualizedVol,
+            timeToExpiryMs: fair.timeToExpiryMs,
             edgeBps,
+            side,
+            polySensitivity: sensitivity,
+            polyMoveBps,
+            polyImpliedMoveBps: impliedMoveBps,
+            windowStart,
+            windowEnd,
+            polyStartPrice: polyMove.startPrice,
+            polyEndPrice: polyMove.endPrice,
+            spotAgeMs: now - move.tsLocal,
+            polyAgeMs,
+            polyTickSize: metadata?.tickSize,
+            polyMinOrderSize: metadata?.minOrderSize,
+            polyTimeToEndMs: metadata?.endDate != null ? metadata.endDate - now : undefined,
+            polyTimeSinceTradeMs: tape.timeSinceLastTradeMs,
+            polyRecentVolume: tape.volume,
+            flowImbalance: flow?.imbalance,
+            flowNotional: flow?.notional,
             reason: 'latency_opportunity',
         });
 
-        this.lastSignalTime = now;
+        this.lastSignalTime.set(cooldownKey, now);
+    }
+
+    /**
+     * Drop snapshots outside the window, keeping the last one before the
+     * cutoff: it is the book's state at the cutoff
+     */
+    private prune(snapshots: PolySnapshot[], now: number): PolySnapshot[] {
+        const cutoff = now - this.snapshotWindowMs;
+        const firstInside = snapshots.findIndex(s => s.timestamp >= cutoff);
+
+        return firstInside === -1
+            ? snapshots.slice(-1)
+            : snapshots.slice(Math.max(firstInside - 1, 0));
+    }
+
+    /**
+     * Spot move fields shared by every discard log
+     */
+    private moveFields(move: PriceReturn): Record<string, unknown> {
+        return {
+            spotSymbol: move.symbol,
+            spotPrice: move.currentPrice,
+            spotMoveBps: move.returnBps,
+            spotDirection: move.direction,
+        };
+    }
+
+    /**
+     * Spot symbol a token follows: watch-list pin, else the question's underlying
+     */
+    private symbolOf(tokenId: string): string | undefined {
+        return this.tokenSymbols.get(tokenId) ?? this.marketTerms.get(tokenId)?.symbol;
+    }
+
+    /**
+     * Market a token belongs to: its condition id once metadata is known
+     */
+    private marketOf(tokenId: string): string {
+        return this.marketMetadata.get(tokenId)?.conditionId ?? tokenId;
+    }
+
+    /**
+     * Whether a token is its market's YES outcome
+     */
+    private isYes(tokenId: string): boolean {
+        return this.tokenOutcomes.get(tokenId)?.trim().toLowerCase() === 'yes';
+    }
+
+    /**
+     * Keep one token per market, the YES when both outcomes are present
+     */
+    private onePerMarket(tokenIds: string[]): string[] {
+        const byMarket = new Map<string, string>();
+        for (const tokenId of tokenIds) {
+            const market = this.marketOf(tokenId);
+            const kept = byMarket.get(market);
+            if (!kept || (!this.isYes(kept) && this.isYes(tokenId))) {
+                byMarket.set(market, tokenId);
+            }
+        }
+        return Array.from(byMarket.values());
+    }
+
+    /**
+     * Outcome to buy: the token itself if it should rise, else its complement
+     */
+    private sideFor(outcome: string, expectedSign: number): SignalSide {
+        const isYes = outcome.trim().toLowerCase() === 'yes';
+        return (expectedSign > 0) === isYes ? 'buy_yes' : 'buy_no';
+    }
+
+    /**
+     * Check aggressor imbalance (signed in move direction) and notional
+     */
+    private isFlowConfirmed(flow: TradeFlowStats, direction: 'up' | 'down'): boolean {
+        const directionalImbalance = direction === 'up' ? flow.imbalance : -flow.imbalance;
+
+        if (this.params.minFlowImbalance > 0 && directionalImbalance < this.params.minFlowImbalance) {
+            return false;
+        }
+
+        if (this.params.minFlowNotional > 0 && flow.notional < this.params.minFlowNotional) {
+            return false;
+        }
+
+        return true;
     }
 
     /**
-     * Get latest Polymarket snapshot
+     * Fair-price movement in bps between two times, or null if the
+     * snapshots don't reach back to `start`
      */
-    private getLatestPolySnapshot(): PolySnapshot | null {
-        if (this.polySnapshots.length === 0) {
+    private calculatePolyMovement(
+        snapshots: PolySnapshot[],
+        start: number,
+        end: number
+    ): { startPrice: number; endPrice: number; moveBps: number } | null {
+        const startPrice = this.fairPriceAt(snapshots, start);
+        const endPrice = this.fairPriceAt(snapshots, end);
+
+        if (startPrice === null || endPrice === null) {
             return null;
         }
-        return this.polySnapshots[this.polySnapshots.length - 1];
+
+        return {
+            startPrice,
+            endPrice,
+            moveBps: ((endPrice / startPrice) - 1) * 10000,
+        };
     }
 
     /**
-     * Calculate Polymarket movement in bps
+     * Fair price at `ts`, linearly interpolated between the surrounding
+     * snapshots (the latest one holds after it), or null before the first
      */
-    private calculatePolyMovement(): number {
-        if (this.polySnapshots.length < 2) {
-            return 0;
+    private fairPriceAt(snapshots: PolySnapshot[], ts: number): number | null {
+        if (snapshots.length === 0 || ts < snapshots[0].timestamp) {
+            return null;
+        }
+
+        let i = snapshots.length - 1;
+        while (snapshots[i].timestamp > ts) {
+            i--;
+        }
+
+        const before = snapshots[i];
+        const after = snapshots[i + 1];
+        if (!after || after.timestamp === before.timestamp) {
+            return this.fairPrice(before);
         }
 
-        const oldest = this.polySnapshots[0];
-        const latest = this.polySnapshots[this.polySnapshots.length - 1];
+        const weight = (ts - before.timestamp) / (after.timestamp - before.timestamp);
+        return this.fairPrice(before) + weight * (this.fairPrice(after) - this.fairPrice(before));
+    }
 
-        const returnRatio = (latest.midPrice / oldest.midPrice) - 1;
-        return returnRatio * 10000;
+    /**
+     * Snapshot price under the configured estimator
+     */
+    private fairPrice(snapshot: PolySnapshot): number {
+        switch (this.params.priceSource) {
+            case 'mid':
+                return snapshot.midPrice;
+            case 'microprice':
+                return snapshot.microPrice;
+            case 'depth_weighted':
+                return snapshot.depthWeightedPrice;
+        }
     }
 
     /**
@@ -165,17 +686,44 @@ export class LatencySignalEngine {
      */
     private emitSignal(signal: ArbSignal): void {
         logger.warn('arb.signal', {
+            strategyId: signal.strategyId,
             spotSymbol: signal.spotSymbol,
             spotPrice: signal.spotPrice,
             spotMoveBps: signal.spotMoveBps.toFixed(2),
             spotDirection: signal.spotDirection,
             polyTokenId: signal.polyTokenId,
             polyMidPrice: signal.polyMidPrice.toFixed(4),
+            polyFairPrice: signal.polyFairPrice.toFixed(4),
+            polyPriceSource: signal.polyPriceSource,
+            polyBid: signal.polyBid.toFixed(4),
+            polyAsk: signal.polyAsk.toFixed(4),
             polySpreadBps: signal.polySpreadBps.toFixed(2),
             polyDepth: signal.polyDepth.toFixed(2),
+            fairValue: signal.fairValue.toFixed(4),
+            annualizedVol: signal.annualizedVol.toFixed(3),
+            timeToExpiryMs: signal.timeToExpiryMs,
             edgeBps: signal.edgeBps.toFixed(2),
+            side: signal.side,
+            polySensitivity: signal.polySensitivity,
+            polyMoveBps: signal.polyMoveBps.toFixed(2),
+            polyImpliedMoveBps: signal.polyImpliedMoveBps.toFixed(2),
+            windowStart: new Date(signal.windowStart).toISOString(),
+            windowEnd: new Date(signal.windowEnd).toISOString(),
+            polyStartPrice: signal.polyStartPrice.toFixed(4),
+            polyEndPrice: signal.polyEndPrice.toFixed(4),
+            spotAgeMs: signal.spotAgeMs,
+            polyAgeMs: signal.polyAgeMs,
+            polyTickSize: signal.polyTickSize,
+            polyMinOrderSize: signal.polyMinOrderSize,
+            polyTimeToEndMs: signal.polyTimeToEndMs,
+            polyTimeSinceTradeMs: signal.polyTimeSinceTradeMs,
+            polyRecentVolume: signal.polyRecentVolume?.toFixed(2),
+            flowImbalance: signal.flowImbalance?.toFixed(3),
+            flowNotional: signal.flowNotional?.toFixed(2),
             reason: signal.reason,
         });
+
+        this.emit('signal', signal);
     }
 
     /**
@@ -183,6 +731,7 @@ export class LatencySignalEngine {
      */
     private logDiscard(reason: DiscardReason, data: Record<string, unknown>): void {
         logger.debug('arb.discard', {
+            strategyId: this.id,
             reason,
             ...data,
         });
@@ -0,0 +1,295 @@
+import { logger } from '../infra/logger.js';
+import { env } from '../config/env.js';
+import { TypedEventEmitter } from '../infra/typed_emitter.js';
+import type { ConsolidatedQuote } from '../data/polymarket/types.js';
+import type { ArbSignal, MarkoutEvents, MarkoutSample, MarkoutStats } from './types.js';
+
+/**
+ * Running sums behind one MarkoutStats row
+ */
+interface MarkoutAccumulator {
+    strategyId: string;
+    scope: 'symbol' | 'token';
+    key: string;
+    horizonMs: number;
+    count: number;
+    hits: number;
+    sumMarkoutBps: number;
+    executableCount: number;
+    sumExecutableMarkoutBps: number;
+    sumPredictedEdgeBps: number;
+}
+
+/**
+ * Book state of a token when its signal fired
+ */
+interface MarkoutEntry {
+    signal: ArbSignal;
+    expectedSign: 1 | -1;     // Direction the token was predicted to move
+    mid: number;
+    bid: number | null;
+    ask: number | null;
+}
+
+/**
+ * Signal Mark-out Tracker
+ *
+ * Records every signal with the token's book at signal time and samples
+ * the latest consolidated quote at each configured horizon afterwards.
+ * Each sample is emitted as `markout` (and logged as arb.markout) with
+ * the realized move signed in the predicted direction, next to the edge
+ * the strategy expected. Running hit-rate and average mark-out are kept
+ * per strategy, horizon and symbol / token.
+ */
+export class MarkoutTracker extends TypedEventEmitter<MarkoutEvents> {
+    // Latest consolidated quote per token
+    private quotes = new Map<string, ConsolidatedQuote>();
+
+    // `${strategyId}|${scope}|${key}|${horizonMs}` -> running sums
+    private stats = new Map<string, MarkoutAccumulator>();
+
+    private timers = new Set<NodeJS.Timeout>();
+    private summaryTimer: NodeJS.Timeout | null = null;
+
+    constructor(
+        private readonly horizonsMs: number[] = env.ARB_MARKOUT_HORIZONS_MS,
+        private readonly summaryIntervalMs: number = env.ARB_MARKOUT_SUMMARY_MS
+    ) {
+        super();
+
+        logger.info('arb.markout.init', {
+            horizonsMs: this.horizonsMs,
+            summaryIntervalMs: this.summaryIntervalMs,
+        });
+    }
+
+    /**
+     * Track the latest quote of a token
+     */
+    public onQuote(quote: ConsolidatedQuote): void {
+        this.quotes.set(quote.tokenId, quote);
+    }
+
+    /**
+     * Record a signal and schedule its mark-outs
+     */
+    public record(signal: ArbSignal): void {
+        if (this.horizonsMs.length === 0) {
+            return;
+        }
+
+        const quote = this.quotes.get(signal.polyTokenId);
+        const entry: MarkoutEntry = {
+            signal,
+            expectedSign: (signal.spotDirection === 'up' ? 1 : -1) * signal.polySensitivity as 1 | -1,
+            mid: quote?.effectiveMid ?? signal.polyMidPrice,
+            bid: quote?.effectiveBid ?? null,
+            ask: quote?.effectiveAsk ?? null,
+        };
+
+        for (const horizonMs of this.horizonsMs) {
+            const timer = setTimeout(() => {
+                this.timers.delete(timer);
+                this.sample(entry, horizonMs);
+            }, horizonMs);
+            this.timers.add(timer);
+        }
+    }
+
+    /**
+     * Running statistics, optionally for one strategy
+     */
+    public getStats(strategyId?: string): MarkoutStats[] {
+        return Array.from(this.stats.values())
+            .filter(acc => strategyId === undefined || acc.strategyId === strategyId)
+            .map(acc => ({
+                strategyId: acc.strategyId,
+                scope: acc.scope,
+                key: acc.key,
+                horizonMs: acc.horizonMs,
+                count: acc.count,
+                hitRate: acc.hits / acc.count,
+                avgMarkoutBps: acc.sumMarkoutBps / acc.count,
+                avgExecutableMarkoutBps: acc.executableCount > 0
+                    ? acc.sumExecutableMarkoutBps / acc.executableCount
+                    : null,
+                avgPredictedEdgeBps: acc.sumPredictedEdgeBps / acc.count,
+            }))
+            .sort((a, b) =>
+                a.strategyId.localeCompare(b.strategyId)
+                || a.scope.localeCompare(b.scope)
+                || a.key.localeCompare(b.key)
+                || a.horizonMs - b.horizonMs);
+    }
+
+    /**
+     * Start periodic stats summaries
+     */
+    public start(): void {
+        if (this.summaryTimer || this.summaryIntervalMs === 0) {
+            return;
+        }
+
+        this.summaryTimer = setInterval(() => this.logSummary(), this.summaryIntervalMs);
+    }
+
+    /**
+     * Stop summaries and drop pending mark-outs
+     */
+    public stop(): void {
+        if (this.summaryTimer) {
+            clearInterval(this.summaryTimer);
+            this.summaryTimer = null;
+        }
+
+        for (const timer of this.timers) {
+            clearTimeout(timer);
+        }
+        this.timers.clear();
+    }
+
+    /**
+     * Sample the token's latest quote one horizon after its signal
+     */
+    private sample(entry: MarkoutEntry, horizonMs: number): void {
+        const { signal, expectedSign } = entry;
+        const quote = this.quotes.get(signal.polyTokenId);
+        const now = Date.now();
+
+        if (!quote || entry.mid <= 0) {
+            logger.debug('arb.markout.no_quote', {
+                strategyId: signal.strategyId,
+                polyTokenId: signal.polyTokenId,
+                horizonMs,
+            });
+            return;
+        }
+
+        const markoutBps = expectedSign * (quote.effectiveMid - entry.mid) * 10000;
+
+        const sample: MarkoutSample = {
+            strategyId: signal.strategyId,
+            spotSymbol: signal.spotSymbol,
+            polyTokenId: signal.polyTokenId,
+            side: signal.side,
+            signalTime: signal.timestamp,
+            horizonMs,
+            sampledAt: now,
+            quoteAgeMs: now - quote.tsLocal,
+            entryMid: entry.mid,
+            entryBid: entry.bid,
+            entryAsk: entry.ask,
+            mid: quote.effectiveMid,
+            bid: quote.effectiveBid,
+            ask: quote.effectiveAsk,
+            predictedEdgeBps: signal.edgeBps,
+            markoutBps,
+            executableMarkoutBps: this.executableMarkout(entry, quote),
+            hit: markoutBps > 0,
+        };
+
+        this.accumulate('symbol', signal.spotSymbol, sample);
+        this.accumulate('token', signal.polyTokenId, sample);
+
+        const tokenStats = this.stats.get(this.statsKey(sample.strategyId, 'token', sample.polyTokenId, horizonMs))!;
+
+        logger.info('arb.markout', {
+            strategyId: sample.strategyId,
+            spotSymbol: sample.spotSymbol,
+            polyTokenId: sample.polyTokenId,
+            side: sample.side,
+            horizonMs,
+            quoteAgeMs: sample.quoteAgeMs,
+            entryMid: sample.entryMid.toFixed(4),
+            mid: sample.mid.toFixed(4),
+            bid: sample.bid.toFixed(4),
+            ask: sample.ask.toFixed(4),
+            predictedEdgeBps: sample.predictedEdgeBps.toFixed(2),
+            markoutBps: sample.markoutBps.toFixed(2),
+            executableMarkoutBps: sample.executableMarkoutBps?.toFixed(2) ?? null,
+            hit: sample.hit,
+            tokenCount: tokenStats.count,
+            tokenHitRate: (tokenStats.hits / tokenStats.count).toFixed(3),
+            tokenAvgMarkoutBps: (tokenStats.sumMarkoutBps / tokenStats.count).toFixed(2),
+        });
+
+        this.emit('markout', sample);
+    }
+
+    /**
+     * Mark-out after crossing the spread both ways, if the entry book is known
+     *
+     * Predicted up: buy at the entry ask, exit at the horizon bid.
+     * Predicted down: sell at the entry bid (i.e. buy the complement),
+     * exit at the horizon ask.
+     */
+    private executableMarkout(entry: MarkoutEntry, quote: ConsolidatedQuote): number | null {
+        if (entry.expectedSign > 0) {
+            return entry.ask !== null && entry.ask > 0
+                ? (quote.effectiveBid - entry.ask) * 10000
+                : null;
+        }
+
+        return entry.bid !== null && entry.bid > 0
+            ? (entry.bid - quote.effectiveAsk) * 10000
+            : null;
+    }
+
+    /**
+     * Add a sample to the running sums for one scope
+     */
+    private accumulate(scope: 'symbol' | 'token', key: string, sample: MarkoutSample): void {
+        const statsKey = this.statsKey(sample.strategyId, scope, key, sample.horizonMs);
+        let acc = this.stats.get(statsKey);
+        if (!acc) {
+            acc = {
+                strategyId: sample.strategyId,
+                scope,
+                key,
+                horizonMs: sample.horizonMs,
+                count: 0,
+                hits: 0,
+                sumMarkoutBps: 0,
+                executableCount: 0,
+                sumExecutableMarkoutBps: 0,
+                sumPredictedEdgeBps: 0,
+            };
+            this.stats.set(statsKey, acc);
+        }
+
+        acc.count++;
+        acc.hits += sample.hit ? 1 : 0;
+        acc.sumMarkoutBps += sample.markoutBps;
+        acc.sumPredictedEdgeBps += sample.predictedEdgeBps;
+        if (sample.executableMarkoutBps !== null) {
+            acc.executableCount++;
+            acc.sumExecutableMarkoutBps += sample.executableMarkoutBps;
+        }
+    }
+
+    /**
+     * Map key of one stats row
+     */
+    private statsKey(strategyId: string, scope: 'symbol' | 'token', key: string, horizonMs: number): string {
+        return `${strategyId}|${scope}|${key}|${horizonMs}`;
+    }
+
+    /**
+     * Log the running stats per strategy, symbol / token and horizon
+     */
+    private logSummary(): void {
+        for (const stats of this.getStats()) {
+            logger.info('arb.markout.stats', {
+                strategyId: stats.strategyId,
+                scope: stats.scope,
+                key: stats.key,
+                horizonMs: stats.horizonMs,
+                count: stats.count,
+                hitRate: stats.hitRate.toFixed(3),
+                avgMarkoutBps: stats.avgMarkoutBps.toFixed(2),
+                avgExecutableMarkoutBps: stats.avgExecutableMarkoutBps?.toFixed(2) ?? null,
+                avgPredictedEdgeBps: stats.avgPredictedEdgeBps.toFixed(2),
+            });
+        }
+    }
+}
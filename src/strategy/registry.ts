@@ -0,0 +1,211 @@
+import { logger } from '../infra/logger.js';
+import { env } from '../config/env.js';
+import { TypedEventEmitter } from '../infra/typed_emitter.js';
+import type { PriceReturn, SpotTick } from '../data/spot/types.js';
+import type { MarketMetadata, PolyTrade, WatchedToken } from '../data/polymarket/types.js';
+import { createLatencyStrategy } from './latency_signal.js';
+import type {
+    PolySnapshot,
+    Strategy,
+    StrategyConfig,
+    StrategyEvents,
+    StrategyFactory,
+} from './types.js';
+
+/**
+ * Strategy Registry
+ *
+ * Maps strategy types to factories, holds the running instances and
+ * fans market data out to every one of them. A strategy that throws is
+ * logged and skipped for that call so it cannot starve the others.
+ * Re-emits every instance's `signal` (signals carry the strategy id).
+ */
+export class StrategyRegistry extends TypedEventEmitter<StrategyEvents> {
+    // type -> factory
+    private factories = new Map<string, StrategyFactory>();
+
+    private strategies: Strategy[] = [];
+    private timer: NodeJS.Timeout | null = null;
+
+    /**
+     * Register a strategy type
+     */
+    public register(type: string, factory: StrategyFactory): this {
+        if (this.factories.has(type)) {
+            throw new Error(`Strategy type already registered: ${type}`);
+        }
+
+        this.factories.set(type, factory);
+        return this;
+    }
+
+    /**
+     * Instantiate and add configured strategies
+     */
+    public create(configs: StrategyConfig[], watchList: WatchedToken[]): Strategy[] {
+        return configs.map(config => {
+            const factory = this.factories.get(config.type);
+            if (!factory) {
+                throw new Error(
+                    `Unknown strategy type "${config.type}" for ${config.id} (registered: ${Array.from(this.factories.keys()).join(', ')})`
+                );
+            }
+
+            if (this.strategies.some(s => s.id === config.id)) {
+                throw new Error(`Duplicate strategy id: ${config.id}`);
+            }
+
+            const strategy = factory(config.id, watchList, config.params ?? {});
+            this.add(strategy);
+            return strategy;
+        });
+    }
+
+    /**
+     * Add a strategy instance (ids must be unique)
+     */
+    public add(strategy: Strategy): void {
+        if (this.strategies.some(s => s.id === strategy.id)) {
+            throw new Error(`Duplicate strategy id: ${strategy.id}`);
+        }
+
+        strategy.on('signal', (signal) => this.emit('signal', signal));
+        this.strategies.push(strategy);
+
+        logger.info('strategy.added', {
+            strategyId: strategy.id,
+            strategies: this.strategies.length,
+        });
+    }
+
+    /**
+     * Running strategy instances
+     */
+    public list(): Strategy[] {
+        return [...this.strategies];
+    }
+
+    /**
+     * Tokens any strategy evaluates on a move of `symbol`
+     */
+    public getTokensFor(symbol: string): string[] {
+        const tokenIds = new Set<string>();
+        for (const strategy of this.strategies) {
+            for (const tokenId of strategy.getTokensFor?.(symbol) ?? []) {
+                tokenIds.add(tokenId);
+            }
+        }
+        return Array.from(tokenIds);
+    }
+
+    /**
+     * Spot symbols any strategy needs
+     */
+    public getSymbols(): string[] {
+        const symbols = new Set<string>();
+        for (const strategy of this.strategies) {
+            for (const symbol of strategy.getSymbols?.() ?? []) {
+                symbols.add(symbol);
+            }
+        }
+        return Array.from(symbols);
+    }
+
+    /**
+     * Loosest max Polymarket snapshot age across strategies, if any set one
+     */
+    public getMaxPolyAgeMs(): number | undefined {
+        const ages = this.strategies
+            .map(s => s.getMaxPolyAgeMs?.())
+            .filter((age): age is number => age !== undefined);
+        return ages.length > 0 ? Math.max(...ages) : undefined;
+    }
+
+    /**
+     * Dispatch a spot tick
+     */
+    public onSpotTick(tick: SpotTick): void {
+        this.dispatch('onSpotTick', s => s.onSpotTick(tick));
+    }
+
+    /**
+     * Dispatch a spot move
+     */
+    public onSpotMove(move: PriceReturn): void {
+        this.dispatch('onSpotMove', s => s.onSpotMove(move));
+    }
+
+    /**
+     * Dispatch a Polymarket snapshot
+     */
+    public onPolySnapshot(snapshot: PolySnapshot): void {
+        this.dispatch('onPolySnapshot', s => s.onPolySnapshot(snapshot));
+    }
+
+    /**
+     * Dispatch a Polymarket print
+     */
+    public onPolyTrade(trade: PolyTrade): void {
+        this.dispatch('onPolyTrade', s => s.onPolyTrade?.(trade));
+    }
+
+    /**
+     * Dispatch market metadata
+     */
+    public onMarketMetadata(metadata: MarketMetadata): void {
+        this.dispatch('onMarketMetadata', s => s.onMarketMetadata?.(metadata));
+    }
+
+    /**
+     * Start calling onTimer on every strategy
+     */
+    public start(intervalMs: number = env.ARB_STRATEGY_TIMER_MS): void {
+        if (this.timer) {
+            return;
+        }
+
+        this.timer = setInterval(() => {
+            const now = Date.now();
+            this.dispatch('onTimer', s => s.onTimer(now));
+        }, intervalMs);
+    }
+
+    /**
+     * Stop the timer and detach listeners from every strategy
+     */
+    public stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+
+        for (const strategy of this.strategies) {
+            strategy.removeAllListeners();
+        }
+    }
+
+    /**
+     * Call a hook on every strategy, isolating failures
+     */
+    private dispatch(hook: string, call: (strategy: Strategy) => void): void {
+        for (const strategy of this.strategies) {
+            try {
+                call(strategy);
+            } catch (error) {
+                logger.error('strategy.error', {
+                    strategyId: strategy.id,
+                    hook,
+                    error: error instanceof Error ? error.message : String(error),
+                });
+            }
+        }
+    }
+}
+
+/**
+ * Registry with the built-in strategy types registered
+ */
+export function createStrategyRegistry(): StrategyRegistry {
+    return new StrategyRegistry()
+        .register('latency', createLatencyStrategy);
+}
@@ -0,0 +1,44 @@
+import type { MarketTerms } from '../data/polymarket/gamma_types.js';
+
+/**
+ * Sign of an outcome token's price response to its underlying
+ * - 1: token gains when spot rises (YES of "above", NO of "below")
+ * - -1: token gains when spot falls
+ * - 0: no single direction (spot inside a `between` range)
+ */
+export type Sensitivity = 1 | -1 | 0;
+
+/**
+ * Sensitivity of a YES/NO token to spot, or null if the outcome isn't YES/NO
+ *
+ * Range markets depend on where spot is: below the range YES gains as
+ * spot rises, above it YES gains as spot falls, inside it either move
+ * can take spot out of the range.
+ */
+export function tokenSensitivity(terms: MarketTerms, outcome: string, spotPrice: number): Sensitivity | null {
+    const label = outcome.trim().toLowerCase();
+    if (label !== 'yes' && label !== 'no') {
+        return null;
+    }
+
+    let yes: Sensitivity;
+    switch (terms.direction) {
+        case 'above':
+            yes = 1;
+            break;
+        case 'below':
+            yes = -1;
+            break;
+        case 'between':
+            if (spotPrice < terms.strike) {
+                yes = 1;
+            } else if (spotPrice >= terms.upperStrike!) {
+                yes = -1;
+            } else {
+                yes = 0;
+            }
+            break;
+    }
+
+    return label === 'yes' ? yes : (-yes as Sensitivity);
+}
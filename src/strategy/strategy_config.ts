@@ -0,0 +1,51 @@
+import { readFileSync } from 'fs';
+import { z } from 'zod';
+import type { StrategyConfig } from './types.js';
+
+const strategyConfigSchema = z.array(z.object({
+    id: z.string().trim().min(1),
+    type: z.string().trim().min(1),
+    params: z.record(z.unknown()).optional(),
+}).strict()).min(1);
+
+/**
+ * Strategy instances run when no strategy file is configured
+ */
+export const DEFAULT_STRATEGIES: StrategyConfig[] = [{ id: 'latency', type: 'latency' }];
+
+/**
+ * Read strategy instances from a JSON file
+ *
+ * Format: [{ "id": "latency-fast", "type": "latency", "params": { "minEdgeBps": 10 } }]
+ */
+export function readStrategyFile(path: string): StrategyConfig[] {
+    let content: string;
+    try {
+        content = readFileSync(path, 'utf-8');
+    } catch (error) {
+        throw new Error(`Cannot read strategy file ${path}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const parsed = strategyConfigSchema.safeParse(JSON.parse(content));
+    if (!parsed.success) {
+        const issues = parsed.error.issues.map(i => `${i.path.join('.') || 'strategies'}: ${i.message}`);
+        throw new Error(`Invalid strategy file ${path}: ${issues.join('; ')}`);
+    }
+
+    const seen = new Set<string>();
+    for (const { id } of parsed.data) {
+        if (seen.has(id)) {
+            throw new Error(`Invalid strategy file ${path}: duplicate id ${id}`);
+        }
+        seen.add(id);
+    }
+
+    return parsed.data;
+}
+
+/**
+ * Strategy instances from ARB_STRATEGY_FILE, or the default single latency strategy
+ */
+export function loadStrategyConfigs(path: string | undefined): StrategyConfig[] {
+    return path ? readStrategyFile(path) : DEFAULT_STRATEGIES;
+}
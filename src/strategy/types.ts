@@ -1,7 +1,11 @@
+import type { PriceReturn, SpotTick } from '../data/spot/types.js';
+import type { MarketMetadata, PolyTrade, WatchedToken } from '../data/polymarket/types.js';
+
 /**
  * Arbitrage signal types
  */
 export interface ArbSignal {
+    strategyId: string;       // Strategy instance that emitted it
     timestamp: number;
     spotSymbol: string;
     spotPrice: number;
@@ -9,29 +13,175 @@ export interface ArbSignal {
     spotDirection: 'up' | 'down';
     polyTokenId: string;
     polyMidPrice: number;
+    polyFairPrice: number;    // Book price under polyPriceSource (the window move is measured on it)
+    polyPriceSource: PolyPriceSource;
+    polyBid: number;          // Executable (complement-consolidated) best bid / ask
+    polyAsk: number;
     polySpreadBps: number;
     polyDepth: number;
-    edgeBps: number;
+    fairValue: number;        // Model probability of the token's outcome
+    annualizedVol: number;    // Realized vol the fair value was priced with
+    timeToExpiryMs: number;   // To the market's parsed settlement
+    edgeBps: number;          // Fair value vs the executable price of `side`, in bps of the $1 payoff
+    side: SignalSide;         // Trade implied by the move
+    polySensitivity: 1 | -1;  // Token's response sign to spot
+    polyMoveBps: number;      // Token's own move over the spot window, signed
+    polyImpliedMoveBps: number; // Model fair value change over the spot move, in bps of polyStartPrice
+    windowStart: number;      // Spot return window (local ms) both moves were measured over
+    windowEnd: number;
+    polyStartPrice: number;   // Token book price at the window boundaries
+    polyEndPrice: number;
+    spotAgeMs: number;        // Age of the spot sample that triggered the move
+    polyAgeMs: number;        // Age of the Polymarket snapshot the edge was measured against
+    polyTickSize?: number;    // From market metadata, when known
+    polyMinOrderSize?: number;
+    polyTimeToEndMs?: number;
+    polyTimeSinceTradeMs?: number | null; // Null if no print seen yet
+    polyRecentVolume?: number;            // Shares traded over POLY_TRADE_WINDOW_MS
+    flowImbalance?: number;   // Aggressor imbalance over the move window
+    flowNotional?: number;    // Traded notional over the move window
     reason: string;
 }
 
+/**
+ * Polymarket price of a signalled token some time after the signal
+ *
+ * Moves are in bps of the $1 payoff, like the signal's edge, and signed
+ * so that positive means the token moved the way the signal predicted.
+ */
+export interface MarkoutSample {
+    strategyId: string;
+    spotSymbol: string;
+    polyTokenId: string;
+    side: SignalSide;
+    signalTime: number;
+    horizonMs: number;
+    sampledAt: number;
+    quoteAgeMs: number;       // Age of the quote sampled at the horizon
+    entryMid: number;
+    entryBid: number | null;  // Null if no book quote was seen at signal time
+    entryAsk: number | null;
+    mid: number;
+    bid: number;
+    ask: number;
+    predictedEdgeBps: number;
+    markoutBps: number;       // Mid to mid
+    executableMarkoutBps: number | null; // Crossing the spread on entry and exit
+    hit: boolean;             // markoutBps > 0
+}
+
+/**
+ * Running mark-out statistics for one strategy, horizon and symbol or token
+ */
+export interface MarkoutStats {
+    strategyId: string;
+    scope: 'symbol' | 'token';
+    key: string;              // Spot symbol or token id
+    horizonMs: number;
+    count: number;
+    hitRate: number;
+    avgMarkoutBps: number;
+    avgExecutableMarkoutBps: number | null;
+    avgPredictedEdgeBps: number;
+}
+
+/**
+ * Mark-out tracker events
+ */
+export type MarkoutEvents = {
+    markout: [MarkoutSample];
+};
+
 /**
  * Discard reason for non-signals
  */
 export type DiscardReason =
     | 'no_poly_snapshot'
+    | 'stale_spot'
+    | 'stale_poly_snapshot'
     | 'wide_spread'
     | 'low_depth'
     | 'cooldown'
+    | 'poly_window_uncovered'
+    | 'unknown_sensitivity'
+    | 'vol_unavailable'
+    | 'already_repriced'
+    | 'weak_flow'
+    | 'market_closed'
+    | 'past_end_date'
+    | 'resolution_blackout'
     | 'insufficient_edge';
 
+/**
+ * Outcome to buy: buying NO is the same exposure as selling YES
+ */
+export type SignalSide = 'buy_yes' | 'buy_no';
+
+/**
+ * Polymarket price estimator used by the engine
+ */
+export type PolyPriceSource = 'mid' | 'microprice' | 'depth_weighted';
+
 /**
  * Polymarket snapshot data for strategy
  */
 export interface PolySnapshot {
     tokenId: string;
+    bestBid: number;          // Executable (complement-consolidated) prices
+    bestAsk: number;
     midPrice: number;
+    microPrice: number;
+    depthWeightedPrice: number;
     spreadBps: number;
     depthTopN: number;
     timestamp: number;
 }
+
+/**
+ * Events emitted by strategies
+ */
+export type StrategyEvents = {
+    signal: [ArbSignal];
+};
+
+/**
+ * A signal strategy fed with market data
+ *
+ * Hooks are called synchronously in data order; `onTimer` fires every
+ * ARB_STRATEGY_TIMER_MS for housekeeping and time-based logic.
+ */
+export interface Strategy {
+    readonly id: string;
+    onSpotTick(tick: SpotTick): void;
+    onSpotMove(move: PriceReturn): void;
+    onPolySnapshot(snapshot: PolySnapshot): void;
+    onTimer(now: number): void;
+    onPolyTrade?(trade: PolyTrade): void;
+    onMarketMetadata?(metadata: MarketMetadata): void;
+    // Tokens a move of `symbol` is evaluated against (to refresh their books first)
+    getTokensFor?(symbol: string): string[];
+    // Spot symbols the strategy needs a feed for (pinned or from market terms)
+    getSymbols?(): string[];
+    // Oldest Polymarket book confirmation the strategy still trades on
+    getMaxPolyAgeMs?(): number;
+    on<K extends keyof StrategyEvents & string>(event: K, listener: (...args: StrategyEvents[K]) => void): this;
+    removeAllListeners(): this;
+}
+
+/**
+ * One configured strategy instance
+ */
+export interface StrategyConfig {
+    id: string;                           // Unique name, tagged on its signals and discards
+    type: string;                         // Registered strategy type, e.g. latency
+    params?: Record<string, unknown>;     // Type-specific overrides of the env defaults
+}
+
+/**
+ * Builds a strategy instance of one type
+ */
+export type StrategyFactory = (
+    id: string,
+    watchList: WatchedToken[],
+    params: Record<string, unknown>
+) => Strategy;